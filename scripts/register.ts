@@ -7,6 +7,9 @@
  * - Updates existing klados, re-verifying if endpoint changes
  * - Supports dry-run mode to preview changes
  * - Supports migrating existing klados to workspace collection
+ * - Syncs every klados the worker hosts, as listed in kladoi.json (see
+ *   src/manifest.ts), each with its own registration state, key,
+ *   verification token and endpoint (<worker>/kladoi/<name>)
  *
  * Usage:
  *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts                    # Test network
@@ -14,10 +17,18 @@
  *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --dry-run          # Preview only
  *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --force            # Force update (ignore hash)
  *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --migrate-collection  # Move to workspace collection
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --klados summarizer   # Only one hosted klados
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --signing-secret      # New signing secret
+ *
+ * The first registration also provisions ARKE_SIGNING_SECRET, which Arke
+ * signs its requests with (see src/auth.ts): a new secret is registered with
+ * every hosted klados, then stored as a worker secret. --signing-secret
+ * provisions a new one, e.g. to enable signing on an existing deployment.
  */
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { execSync } from 'child_process';
+import { randomBytes } from 'crypto';
 import { ArkeClient } from '@arke-institute/sdk';
 import {
   syncKlados,
@@ -31,8 +42,15 @@ import {
   type KladosRegistrationState,
   type DryRunResult,
   type SyncResult,
+  type KeyStore,
 } from '@arke-institute/rhiza/registration';
 import { CloudflareKeyStore } from '../../shared/cloudflare-keystore';
+import {
+  KLADOS_PATH_PREFIX,
+  MANIFEST,
+  scopedSecret,
+  scopedVar as kladosVar,
+} from '../src/manifest';
 
 // =============================================================================
 // Configuration
@@ -40,6 +58,18 @@ import { CloudflareKeyStore } from '../../shared/cloudflare-keystore';
 
 const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
 
+/** Worker secret Arke's request signatures are verified with (shared by every klados) */
+const SIGNING_SECRET = 'ARKE_SIGNING_SECRET';
+
+/**
+ * A klados to register
+ */
+interface KladosEntry {
+  name: string;
+  configPath: string;
+  primary: boolean;
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -74,14 +104,95 @@ async function waitForDeployment(endpoint: string, maxWaitMs = 30000): Promise<v
   console.warn('  Health check timed out, attempting verification anyway...');
 }
 
-function updateWranglerConfig(kladosId: string): boolean {
+/**
+ * A hosted klados's copy of a variable, e.g. AGENT_ID_SUMMARIZER_TEST
+ */
+function scopedVar(entry: KladosEntry, base: string, suffix = ''): string {
+  return entry.primary ? `${base}${suffix}` : kladosVar(entry.name, base, suffix);
+}
+
+/**
+ * Kladoi hosted by this worker, as listed in kladoi.json (primary first)
+ */
+function findKladoi(): KladosEntry[] {
+  return MANIFEST.map((entry, index) => ({
+    name: entry.name,
+    configPath: entry.agent,
+    primary: index === 0,
+  }));
+}
+
+/**
+ * Store a hosted klados's API key and verification secrets under its own names
+ */
+function scopedKeyStore(keyStore: KeyStore, entry: KladosEntry): KeyStore {
+  if (entry.primary) return keyStore;
+  const rename = (name: string) => scopedSecret(entry.name, name);
+
+  return {
+    get: (name) => keyStore.get(rename(name)),
+    set: (name, value) => keyStore.set(rename(name), value),
+  };
+}
+
+/**
+ * Registration state file of a klados on a network
+ */
+function stateFileFor(entry: KladosEntry, network: 'test' | 'main'): string {
+  return getStateFilePath(entry.primary ? '.klados-state' : `.klados-state.${entry.name}`, network);
+}
+
+/**
+ * Give every registered klados a new signing secret, then the worker
+ *
+ * Arke is told first, so a worker that has no secret yet keeps accepting
+ * requests until it gets one.
+ */
+async function provisionSigningSecret(
+  client: ArkeClient,
+  keyStore: KeyStore,
+  kladoi: KladosEntry[],
+  network: 'test' | 'main'
+): Promise<void> {
+  const secret = randomBytes(32).toString('hex');
+
+  for (const entry of kladoi) {
+    const state = readState<KladosRegistrationState>(stateFileFor(entry, network));
+    if (!state) continue;
+
+    const { error } = await client.api.POST('/kladoi/{id}/signing-secret', {
+      params: { path: { id: state.klados_id } },
+      body: { secret },
+    });
+    if (error) {
+      throw new Error(
+        `Failed to register signing secret for ${entry.name}: ${JSON.stringify(error)}`
+      );
+    }
+    console.log(`  Registered with ${state.klados_id}`);
+  }
+
+  await keyStore.set(SIGNING_SECRET, secret);
+  console.log(`  Stored as ${SIGNING_SECRET}`);
+}
+
+function updateWranglerConfig(varName: string, kladosId: string): boolean {
   try {
     const wranglerPath = 'wrangler.jsonc';
     if (!existsSync(wranglerPath)) return false;
 
     let content = readFileSync(wranglerPath, 'utf-8');
-    // Replace AGENT_ID placeholder or existing value
-    content = content.replace(/"AGENT_ID":\s*"[^"]*"/, `"AGENT_ID": "${kladosId}"`);
+    const pattern = new RegExp(`"${varName}":\\s*"[^"]*"`);
+    if (pattern.test(content)) {
+      // Replace placeholder or existing value
+      content = content.replace(pattern, `"${varName}": "${kladosId}"`);
+    } else {
+      // New hosted klados: add its variable next to AGENT_ID
+      content = content.replace(/^(\s*)"AGENT_ID":\s*"[^"]*",?\n/m, (line, indent: string) =>
+        `${line.trimEnd().replace(/,?$/, ',')}\n${indent}"${varName}": "${kladosId}",\n`
+      );
+      if (!content.includes(`"${varName}"`)) return false;
+    }
     writeFileSync(wranglerPath, content);
     return true;
   } catch {
@@ -100,37 +211,46 @@ function isDryRunResult(
 }
 
 // =============================================================================
-// Main
+// Registration
 // =============================================================================
 
-async function main() {
-  if (!ARKE_USER_KEY) {
-    console.error('Error: ARKE_USER_KEY environment variable is required');
-    process.exit(1);
-  }
-
-  const isProduction =
-    process.argv.includes('--production') || process.argv.includes('--prod');
-  const isDryRun = process.argv.includes('--dry-run');
-  const force = process.argv.includes('--force');
-  const migrateCollection = process.argv.includes('--migrate-collection');
-  const network = isProduction ? 'main' : 'test';
+interface RegisterOptions {
+  client: ArkeClient;
+  keyStore: KeyStore;
+  network: 'test' | 'main';
+  isDryRun: boolean;
+  force: boolean;
+  migrateCollection: boolean;
+}
 
-  console.log(`\n📦 Klados Registration (${network} network)${isDryRun ? ' [DRY RUN]' : ''}${force ? ' [FORCE]' : ''}${migrateCollection ? ' [MIGRATE]' : ''}\n`);
+/**
+ * Sync one klados with Arke
+ *
+ * @returns Whether it succeeded
+ */
+async function registerKlados(entry: KladosEntry, options: RegisterOptions): Promise<boolean> {
+  const { client, network, isDryRun, force, migrateCollection } = options;
 
   // Load agent config
-  if (!existsSync('agent.json')) {
-    console.error('Error: agent.json not found');
-    process.exit(1);
+  if (!existsSync(entry.configPath)) {
+    console.error(`Error: ${entry.configPath} not found`);
+    return false;
   }
 
-  const config: KladosConfig = JSON.parse(readFileSync('agent.json', 'utf-8'));
-  console.log(`Agent: ${config.label}`);
+  const config: KladosConfig = JSON.parse(readFileSync(entry.configPath, 'utf-8'));
+
+  // Arke verifies and invokes each klados at its endpoint, so they can't share one
+  const path = `${KLADOS_PATH_PREFIX}/${entry.name}`;
+  if (!entry.primary && !config.endpoint.replace(/\/$/, '').endsWith(path)) {
+    console.error(`Error: ${entry.configPath} endpoint must be the worker URL followed by ${path}`);
+    return false;
+  }
+  console.log(`Agent: ${config.label}${entry.primary ? '' : ` (${entry.name})`}`);
   console.log(`Endpoint: ${config.endpoint}`);
   console.log('');
 
   // Load existing state
-  const stateFile = getStateFilePath('.klados-state', network);
+  const stateFile = stateFileFor(entry, network);
   const state = readState<KladosRegistrationState>(stateFile);
 
   if (state) {
@@ -139,11 +259,8 @@ async function main() {
     console.log('Creating new klados...\n');
   }
 
-  // Create client
-  const client = new ArkeClient({ authToken: ARKE_USER_KEY, network });
-
-  // Create key store
-  const keyStore = new CloudflareKeyStore(process.cwd());
+  // Each klados's key goes in its own secrets
+  const keyStore = scopedKeyStore(options.keyStore, entry);
 
   // Check for workspace config (shared collection across multiple kladoi)
   const workspace = findWorkspaceConfig();
@@ -216,7 +333,7 @@ async function main() {
         }
       }
       console.log('\nRun without --dry-run to apply changes.');
-      return;
+      return true;
     }
 
     // Handle actual sync result
@@ -225,11 +342,12 @@ async function main() {
     if (action === 'created') {
       // Update wrangler.jsonc with AGENT_ID
       console.log('\n📝 Updating wrangler.jsonc...');
-      if (updateWranglerConfig(newState.klados_id)) {
-        console.log(`  AGENT_ID set to ${newState.klados_id}`);
+      const idVar = scopedVar(entry, 'AGENT_ID');
+      if (updateWranglerConfig(idVar, newState.klados_id)) {
+        console.log(`  ${idVar} set to ${newState.klados_id}`);
       } else {
         console.warn('  Could not update wrangler.jsonc');
-        console.warn(`  Set AGENT_ID manually: "${newState.klados_id}"`);
+        console.warn(`  Set ${idVar} manually: "${newState.klados_id}"`);
       }
 
       // Final deploy with correct AGENT_ID
@@ -256,8 +374,89 @@ async function main() {
   } catch (error) {
     console.error('\n❌ Registration failed:');
     console.error(`   ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+
+  return true;
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main() {
+  if (!ARKE_USER_KEY) {
+    console.error('Error: ARKE_USER_KEY environment variable is required');
     process.exit(1);
   }
+
+  const isProduction =
+    process.argv.includes('--production') || process.argv.includes('--prod');
+  const isDryRun = process.argv.includes('--dry-run');
+  const force = process.argv.includes('--force');
+  const migrateCollection = process.argv.includes('--migrate-collection');
+  const only = process.argv.includes('--klados')
+    ? process.argv[process.argv.indexOf('--klados') + 1]
+    : undefined;
+  const network = isProduction ? 'main' : 'test';
+
+  console.log(`\n📦 Klados Registration (${network} network)${isDryRun ? ' [DRY RUN]' : ''}${force ? ' [FORCE]' : ''}${migrateCollection ? ' [MIGRATE]' : ''}\n`);
+
+  const hosted = findKladoi();
+  const kladoi = hosted.filter((entry) => !only || entry.name === only);
+  if (kladoi.length === 0) {
+    console.error(`Error: no hosted klados named ${only}`);
+    process.exit(1);
+  }
+
+  // Create client
+  const client = new ArkeClient({ authToken: ARKE_USER_KEY, network });
+
+  // Create key store
+  const keyStore = new CloudflareKeyStore(process.cwd());
+
+  const newSigningSecret =
+    process.argv.includes('--signing-secret') ||
+    kladoi.some((entry) => !readState(stateFileFor(entry, network)));
+
+  const failed: string[] = [];
+  for (const entry of kladoi) {
+    if (kladoi.length > 1) {
+      console.log(`\n── ${entry.name} ${'─'.repeat(Math.max(0, 56 - entry.name.length))}\n`);
+    }
+    const ok = await registerKlados(entry, {
+      client,
+      keyStore,
+      network,
+      isDryRun,
+      force,
+      migrateCollection,
+    });
+    if (!ok) failed.push(entry.name);
+  }
+
+  if (failed.length > 0) {
+    console.error(`\n❌ Failed to register: ${failed.join(', ')}`);
+    process.exit(1);
+  }
+
+  // New kladoi need the signing secret, and every klados shares it
+  if (newSigningSecret) {
+    console.log('\n🔏 Provisioning request signing secret...');
+    if (isDryRun) {
+      console.log('  Would register a new secret with every klados and store it');
+      return;
+    }
+    try {
+      await provisionSigningSecret(client, keyStore, hosted, network);
+      console.log('\n🚀 Redeploying worker...');
+      execSync('wrangler deploy', { stdio: 'inherit' });
+    } catch (error) {
+      console.error('\n❌ Signing secret provisioning failed:');
+      console.error(`   ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
 }
 
 main();
@@ -8,6 +8,9 @@
  *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts              # Test network
  *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts --production # Main network
  *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts --revoke-old # Revoke old key
+ *
+ * The request signing secret is rotated separately, with
+ * `scripts/register.ts --signing-secret`.
  */
 
 import { execSync } from 'child_process';
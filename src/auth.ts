@@ -0,0 +1,249 @@
+/**
+ * Request Authentication
+ *
+ * Verifies that POST /process calls really come from Arke before a job is
+ * accepted. Arke signs each invocation with a shared secret:
+ *
+ *   X-Arke-Timestamp: <unix seconds>
+ *   X-Arke-Signature: v1=<hex HMAC-SHA256 of "<timestamp>.<METHOD>.<path>.<raw body>">
+ *
+ * The path includes the query string, so a signature is only good for the
+ * exact request it was made for: a signed GET /jobs can't be replayed as a
+ * POST /cancel/:jobId. Requests with a missing, malformed or mismatched
+ * signature, or a timestamp outside the tolerance window, are rejected with
+ * 401. Signatures already seen within the window are rejected as replays.
+ *
+ * The secret is generated by scripts/register.ts, which stores it as the
+ * ARKE_SIGNING_SECRET worker secret and registers it with each klados. Until
+ * then, the endpoints Arke calls accept unsigned requests (see `optional`).
+ */
+
+import type { MiddlewareHandler } from 'hono';
+import type { Env } from './types';
+
+export const SIGNATURE_HEADER = 'X-Arke-Signature';
+export const TIMESTAMP_HEADER = 'X-Arke-Timestamp';
+
+/** Signature scheme prefix, allows rotating the algorithm later */
+const SIGNATURE_VERSION = 'v1';
+
+/** Default tolerance between the signed timestamp and now */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Reasons a request can fail authentication
+ */
+export type AuthFailureCode =
+  | 'MISSING_SIGNATURE'
+  | 'MALFORMED_SIGNATURE'
+  | 'STALE_TIMESTAMP'
+  | 'INVALID_SIGNATURE'
+  | 'REPLAYED_REQUEST';
+
+export interface AuthFailure {
+  code: AuthFailureCode;
+  message: string;
+}
+
+/**
+ * The parts of a request that are signed
+ */
+export interface SignedRequest {
+  method: string;
+  /** Path and query string, e.g. /jobs?network=test */
+  path: string;
+  /** Raw body ('' for none) */
+  body: string;
+}
+
+export interface VerifyOptions {
+  /** Allowed clock skew in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Current time in ms, for tests */
+  now?: number;
+}
+
+export interface RequireSignatureOptions extends VerifyOptions {
+  /**
+   * Let requests through unverified while ARKE_SIGNING_SECRET isn't set, so
+   * deployments registered before signing keep working (default: false,
+   * such requests are refused with 500)
+   */
+  optional?: boolean;
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+const encoder = new TextEncoder();
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function signedPayload(request: SignedRequest, timestamp: number): Uint8Array {
+  const { method, path, body } = request;
+  return encoder.encode(`${timestamp}.${method.toUpperCase()}.${path}.${body}`);
+}
+
+/**
+ * Signature of a request at a timestamp:
+ * v1=<hex HMAC-SHA256 of "<timestamp>.<METHOD>.<path>.<body>">
+ */
+export async function computeSignature(
+  secret: string,
+  request: SignedRequest,
+  timestamp: number
+): Promise<string> {
+  const key = await importKey(secret);
+  const mac = await crypto.subtle.sign('HMAC', key, signedPayload(request, timestamp));
+  return `${SIGNATURE_VERSION}=${toHex(mac)}`;
+}
+
+/**
+ * Sign a request the same way Arke does
+ *
+ * Useful for tests and for invoking the worker from local tooling.
+ *
+ * @param secret - Shared signing secret
+ * @param request - Method, path (with query string) and raw body
+ * @param timestamp - Unix timestamp in seconds (default: now)
+ * @returns Headers to attach to the request
+ */
+export async function signRequest(
+  secret: string,
+  request: SignedRequest,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<Record<string, string>> {
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: await computeSignature(secret, request, timestamp),
+  };
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Signatures seen recently (lowercase hex), mapped to when their timestamp
+ * leaves the window (ms).
+ *
+ * This is per-isolate, so it only catches replays that land on the same
+ * isolate. The timestamp window bounds how long a captured request is useful.
+ */
+const seenSignatures = new Map<string, number>();
+
+function pruneSeen(now: number): void {
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) seenSignatures.delete(signature);
+  }
+}
+
+/**
+ * Verify a signed request
+ *
+ * @returns null if the request is authentic, otherwise the failure reason
+ */
+export async function verifySignature(
+  secret: string,
+  request: SignedRequest,
+  timestampHeader: string | undefined,
+  signatureHeader: string | undefined,
+  options: VerifyOptions = {}
+): Promise<AuthFailure | null> {
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const now = options.now ?? Date.now();
+
+  if (!timestampHeader || !signatureHeader) {
+    return { code: 'MISSING_SIGNATURE', message: 'Request is not signed' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const parts = signatureHeader.split('=');
+  const [version, hex] = parts;
+  const mac = parts.length === 2 && hex ? fromHex(hex) : null;
+
+  if (!Number.isInteger(timestamp) || version !== SIGNATURE_VERSION || !mac) {
+    return { code: 'MALFORMED_SIGNATURE', message: 'Signature headers are malformed' };
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > tolerance) {
+    return { code: 'STALE_TIMESTAMP', message: 'Request timestamp is outside the allowed window' };
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const key = await importKey(secret);
+  const valid = await crypto.subtle.verify('HMAC', key, mac, signedPayload(request, timestamp));
+
+  if (!valid) {
+    return { code: 'INVALID_SIGNATURE', message: 'Signature does not match request' };
+  }
+
+  // Hex is case-insensitive, so the same MAC can be written several ways
+  const seenKey = hex.toLowerCase();
+  pruneSeen(now);
+  if (seenSignatures.has(seenKey)) {
+    return { code: 'REPLAYED_REQUEST', message: 'Request has already been processed' };
+  }
+  seenSignatures.set(seenKey, (timestamp + tolerance) * 1000);
+
+  return null;
+}
+
+/**
+ * Hono middleware that rejects requests not signed by Arke
+ *
+ * Reads the raw body for verification; Hono caches it, so handlers can still
+ * call c.req.json() afterwards. The method and path (with query string) are
+ * checked as well.
+ */
+export function requireArkeSignature(
+  options: RequireSignatureOptions = {}
+): MiddlewareHandler<{ Bindings: Env }> {
+  return async (c, next) => {
+    const secret = c.env.ARKE_SIGNING_SECRET;
+
+    if (!secret) {
+      if (options.optional) return next();
+      return c.json({ error: 'Request signing not configured' }, 500);
+    }
+
+    const url = new URL(c.req.url);
+    const failure = await verifySignature(
+      secret,
+      { method: c.req.method, path: url.pathname + url.search, body: await c.req.text() },
+      c.req.header(TIMESTAMP_HEADER),
+      c.req.header(SIGNATURE_HEADER),
+      options
+    );
+
+    if (failure) {
+      return c.json({ error: 'Unauthorized', code: failure.code, message: failure.message }, 401);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Batch Processing
+ *
+ * Support for cardinality: 'many' kladoi, which receive target_entities
+ * instead of a single target_entity. Items are processed with bounded
+ * concurrency; per-item failures are logged and summarized instead of
+ * aborting the whole job.
+ */
+
+import { createKladosError, KladosErrorCode, type KladosJob } from '@arke-institute/rhiza';
+import { apiError } from './retry';
+import type { TargetEntity, TargetProperties } from './types';
+
+/**
+ * Options for batch processing
+ */
+export interface BatchOptions {
+  /** Maximum number of items processed at once (default: 5) */
+  concurrency?: number;
+
+  /**
+   * Fail the job if the ratio of failed items exceeds this (0-1, default: 1).
+   * The job always fails if every item failed.
+   */
+  maxFailureRatio?: number;
+
+  /** Stops starting new items when aborted; the batch then throws the abort reason */
+  signal?: AbortSignal;
+
+  /** Errors that stop the whole batch instead of failing one item (e.g. budget exhausted) */
+  isFatal?: (err: unknown) => boolean;
+}
+
+/**
+ * Outcome of processing a single item
+ */
+export type BatchItemResult =
+  | { id: string; ok: true; outputIds: string[] }
+  | { id: string; ok: false; error: string };
+
+/**
+ * Summary of a batch run
+ */
+export interface BatchResult {
+  /** Per-item results, in input order */
+  items: BatchItemResult[];
+  /** Output IDs from all successful items, in input order */
+  outputIds: string[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Fetch an entity by ID
+ *
+ * job.fetchTarget() only covers target_entity; use this for target_entities.
+ */
+export async function fetchEntity<T extends TargetProperties = TargetProperties>(
+  job: KladosJob,
+  id: string
+): Promise<TargetEntity<T>> {
+  const { data, error, response } = await job.client.api.GET('/entities/{id}', {
+    params: { path: { id } },
+  });
+
+  if (error || !data) {
+    throw apiError(`Failed to fetch entity ${id}`, { error, response });
+  }
+
+  return data as unknown as TargetEntity<T>;
+}
+
+/**
+ * Run handler over every ID with at most `concurrency` in flight
+ *
+ * @param job - The KladosJob (used for logging)
+ * @param ids - Entity IDs to process
+ * @param handler - Processes one ID and returns its output entity IDs
+ * @param options - Concurrency and failure threshold
+ * @throws KladosError (PROCESSING_ERROR) if the failure threshold is exceeded
+ */
+export async function processBatch(
+  job: KladosJob,
+  ids: string[],
+  handler: (id: string, index: number) => Promise<string[]>,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const concurrency = Math.max(1, options.concurrency ?? 5);
+  const maxFailureRatio = options.maxFailureRatio ?? 1;
+  const items: BatchItemResult[] = new Array(ids.length);
+
+  job.log.info('Starting batch', { total: ids.length, concurrency });
+
+  const signal = options.signal;
+  let fatal: { error: unknown } | undefined;
+
+  let next = 0;
+  const worker = async () => {
+    while (next < ids.length && !signal?.aborted && !fatal) {
+      const index = next++;
+      const id = ids[index];
+      try {
+        const outputIds = await handler(id, index);
+        items[index] = { id, ok: true, outputIds };
+      } catch (err) {
+        // Items interrupted by an abort aren't failures of their own
+        if (signal?.aborted) return;
+        if (options.isFatal?.(err)) {
+          fatal ??= { error: err };
+          return;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        items[index] = { id, ok: false, error: message };
+        job.log.error(`Failed to process ${id}`, { index, error: message });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+  signal?.throwIfAborted();
+  if (fatal) throw fatal.error;
+
+  const failures = items.filter((item) => !item.ok);
+  const result: BatchResult = {
+    items,
+    outputIds: items.flatMap((item) => (item.ok ? item.outputIds : [])),
+    succeeded: items.length - failures.length,
+    failed: failures.length,
+  };
+
+  const summary = {
+    total: ids.length,
+    succeeded: result.succeeded,
+    failed: result.failed,
+    failedIds: failures.map((item) => item.id),
+  };
+
+  const failureRatio = ids.length > 0 ? result.failed / ids.length : 0;
+  if (result.failed > 0 && (result.succeeded === 0 || failureRatio > maxFailureRatio)) {
+    throw createKladosError(
+      KladosErrorCode.PROCESSING_ERROR,
+      `Batch failed: ${result.failed} of ${ids.length} items failed`,
+      summary
+    );
+  }
+
+  if (result.failed > 0) {
+    job.log.warning('Batch completed with failures', summary);
+  } else {
+    job.log.success('Batch completed', summary);
+  }
+
+  return result;
+}
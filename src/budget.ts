@@ -0,0 +1,203 @@
+/**
+ * Subrequest and Time Budget
+ *
+ * Workers stop a job outright when it exceeds the platform's subrequest or
+ * CPU limits, which can leave outputs half-written. The budget tracks
+ * subrequests (job.client calls and budget.fetch) and elapsed time so a job
+ * can fail cleanly, with a PROCESSING_ERROR whose reason is
+ * 'budget_exhausted', before making a call it can't afford:
+ * - job.log.warning is emitted as usage passes 75% and 90% of either limit
+ * - processJob can check ctx.budget.remaining() before expensive steps
+ * - Once exhausted, further job.client calls fail before they are sent,
+ *   except ungated() calls (see ./client), such as output rollbacks
+ *
+ * Elapsed wall time stands in for CPU time, which a worker can't measure.
+ *
+ * Only calls made while processJob runs are charged: job.client calls
+ * (including any job.log writes KladosJob makes through it) and
+ * budget.fetch, which ./content uses for the job's downloads by default.
+ * Not charged, so covered by the headroom the defaults leave:
+ * - KladosJob's log entry creation, finalization, batch slot update and
+ *   handoff, which happen before and after processJob
+ * - JOB_STATE reads and writes: job records, status (at most one write a
+ *   second) and cancellation polls (one read every 2s)
+ * - The metrics flush (one Durable Object call) and job event deliveries
+ * - Output rollbacks after a failed commit (one or two calls per output)
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { interceptClient, isUngated } from './client';
+import type { Env } from './types';
+
+/**
+ * Reason on errors of jobs that ran out of budget; rhiza has no error code for it
+ */
+export const BUDGET_EXHAUSTED = 'budget_exhausted';
+
+/** Platform limit is 1000; the rest is reserved for finalization and handoff */
+const DEFAULT_MAX_SUBREQUESTS = 950;
+
+/** Leaves time to finalize within the 30s limit */
+const DEFAULT_MAX_DURATION_MS = 25_000;
+
+/** Fractions of a limit at which a warning is logged */
+const WARNING_THRESHOLDS = [0.75, 0.9];
+
+/** Budget of each job while processJob runs (see budgetFor) */
+const BUDGETS = new WeakMap<KladosJob, Budget>();
+
+export interface BudgetLimits {
+  maxSubrequests: number;
+  maxDurationMs: number;
+}
+
+export interface BudgetRemaining {
+  subrequests: number;
+  ms: number;
+}
+
+/**
+ * Budget for one job
+ */
+export interface Budget {
+  readonly limits: BudgetLimits;
+  /** Subrequests made so far */
+  readonly subrequests: number;
+  /** Time since the budget was created */
+  readonly elapsedMs: number;
+  remaining(): BudgetRemaining;
+  /** Throw a budget exhaustion error if either limit has been reached */
+  check(): void;
+  /** Count one subrequest, throwing first if none are left */
+  charge(): void;
+  /** fetch that counts against the budget; use for outbound calls */
+  fetch: typeof fetch;
+}
+
+/**
+ * Read limits from env, falling back to the defaults
+ */
+export function budgetLimits(env: Env): BudgetLimits {
+  return {
+    maxSubrequests: Number(env.BUDGET_MAX_SUBREQUESTS) || DEFAULT_MAX_SUBREQUESTS,
+    maxDurationMs: Number(env.BUDGET_MAX_DURATION_MS) || DEFAULT_MAX_DURATION_MS,
+  };
+}
+
+/**
+ * Whether an error is a budget exhaustion
+ */
+export function isBudgetExhausted(err: unknown): boolean {
+  return (
+    typeof err === 'object' &&
+    err !== null &&
+    (err as { reason?: string }).reason === BUDGET_EXHAUSTED
+  );
+}
+
+/**
+ * Create a budget
+ *
+ * @param limits - Limits to enforce (default: built-in defaults)
+ * @param warn - Called once per threshold crossed
+ */
+export function createBudget(
+  limits: BudgetLimits = {
+    maxSubrequests: DEFAULT_MAX_SUBREQUESTS,
+    maxDurationMs: DEFAULT_MAX_DURATION_MS,
+  },
+  warn: (message: string, metadata: Record<string, unknown>) => void = () => {}
+): Budget {
+  const started = Date.now();
+  const warned = new Set<string>();
+  let subrequests = 0;
+
+  const usage = () => ({
+    subrequests: { used: subrequests, limit: limits.maxSubrequests },
+    time: { used: Date.now() - started, limit: limits.maxDurationMs },
+  });
+
+  const warnIfNeeded = () => {
+    for (const [dimension, { used, limit }] of Object.entries(usage())) {
+      for (const threshold of WARNING_THRESHOLDS) {
+        const key = `${dimension}:${threshold}`;
+        if (used >= limit * threshold && !warned.has(key)) {
+          warned.add(key);
+          warn(`Job has used ${Math.round(threshold * 100)}% of its ${dimension} budget`, {
+            used,
+            limit,
+          });
+        }
+      }
+    }
+  };
+
+  // Not retryable: another attempt would run out the same way
+  const exhausted = (dimension: string) =>
+    Object.assign(
+      createKladosError(KladosErrorCode.PROCESSING_ERROR, `Job ${dimension} budget exhausted`, {
+        reason: BUDGET_EXHAUSTED,
+        ...usage(),
+      }),
+      { reason: BUDGET_EXHAUSTED, retryable: false }
+    );
+
+  const budget: Budget = {
+    limits,
+    get subrequests() {
+      return subrequests;
+    },
+    get elapsedMs() {
+      return Date.now() - started;
+    },
+    remaining() {
+      return {
+        subrequests: Math.max(0, limits.maxSubrequests - subrequests),
+        ms: Math.max(0, limits.maxDurationMs - (Date.now() - started)),
+      };
+    },
+    check() {
+      warnIfNeeded();
+      if (Date.now() - started >= limits.maxDurationMs) throw exhausted('time');
+      if (subrequests >= limits.maxSubrequests) throw exhausted('subrequest');
+    },
+    charge() {
+      budget.check();
+      subrequests += 1;
+      warnIfNeeded();
+    },
+    fetch: (input, init) => {
+      budget.charge();
+      return fetch(input, init);
+    },
+  };
+
+  return budget;
+}
+
+/**
+ * Charge every job.client call made while processJob runs against a budget
+ *
+ * @returns Function that stops enforcement, so KladosJob can still finalize
+ */
+export function trackBudget(job: KladosJob, budget: Budget): () => void {
+  let active = true;
+  BUDGETS.set(job, budget);
+
+  interceptClient(job, async (call, next) => {
+    if (active && !isUngated(call)) budget.charge();
+    return next(call);
+  });
+
+  return () => {
+    active = false;
+    BUDGETS.delete(job);
+  };
+}
+
+/**
+ * The budget a job's processJob runs under, if it is being tracked
+ */
+export function budgetFor(job: KladosJob): Budget | undefined {
+  return BUDGETS.get(job);
+}
@@ -0,0 +1,114 @@
+/**
+ * Result Cache
+ *
+ * Opt-in cache for processEntity results, so re-running a workflow over
+ * unchanged entities doesn't redo expensive work (e.g. LLM calls). Enabled by
+ * binding the RESULT_CACHE KV namespace.
+ *
+ * Entries are keyed on a hash of the target's relevant properties and
+ * CACHE_SALT, under a prefix for AGENT_VERSION, so a new version never sees
+ * results from an old one. Entries expire after CACHE_TTL_SECONDS, and every
+ * entry for a version can be purged with DELETE /cache/:version.
+ *
+ * Cache errors never fail a job: a failed read is a miss, a failed write is
+ * skipped.
+ */
+
+import { stableHash } from './provenance';
+import type { Env } from './types';
+
+/** Key prefix for cached results */
+const KEY_PREFIX = 'result:';
+
+/** Default entry lifetime (7 days) */
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Shortest TTL KV accepts */
+const MIN_TTL_SECONDS = 60;
+
+/**
+ * Cache for one job, scoped to the worker's version and salt
+ */
+export interface ResultCache {
+  readonly enabled: boolean;
+  /**
+   * Return the cached result for these inputs, or compute and cache it
+   *
+   * @param inputs - Properties the result depends on (keep to what matters,
+   *   so unrelated edits don't invalidate it)
+   */
+  getOrCompute<T>(
+    inputs: Record<string, unknown>,
+    compute: () => Promise<T>
+  ): Promise<{ value: T; hit: boolean }>;
+}
+
+export interface ResultCacheOptions {
+  version: string;
+  salt?: string;
+  ttlSeconds?: number;
+}
+
+function versionPrefix(version: string): string {
+  return `${KEY_PREFIX}${version}:`;
+}
+
+/**
+ * Create a cache over a KV namespace; without one, every lookup is a miss
+ */
+export function createResultCache(
+  kv: KVNamespace | undefined,
+  options: ResultCacheOptions
+): ResultCache {
+  const ttl = Math.max(options.ttlSeconds ?? DEFAULT_TTL_SECONDS, MIN_TTL_SECONDS);
+
+  return {
+    enabled: kv !== undefined,
+
+    async getOrCompute<T>(inputs: Record<string, unknown>, compute: () => Promise<T>) {
+      if (!kv) return { value: await compute(), hit: false };
+
+      const key = `${versionPrefix(options.version)}${await stableHash({
+        inputs,
+        salt: options.salt ?? '',
+      })}`;
+
+      const cached = await kv.get<{ value: unknown }>(key, 'json').catch(() => null);
+      if (cached) return { value: cached.value as T, hit: true };
+
+      const value = await compute();
+      await kv.put(key, JSON.stringify({ value }), { expirationTtl: ttl }).catch(() => {});
+      return { value, hit: false };
+    },
+  };
+}
+
+/**
+ * The result cache configured by env (RESULT_CACHE, CACHE_SALT, CACHE_TTL_SECONDS)
+ */
+export function resultCacheFor(env: Env): ResultCache {
+  return createResultCache(env.RESULT_CACHE, {
+    version: env.AGENT_VERSION,
+    salt: env.CACHE_SALT,
+    ttlSeconds: Number(env.CACHE_TTL_SECONDS) || undefined,
+  });
+}
+
+/**
+ * Delete every cached result for a version
+ *
+ * @returns Number of entries deleted
+ */
+export async function purgeCache(kv: KVNamespace, version: string): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: versionPrefix(version), cursor });
+    await Promise.all(page.keys.map((key) => kv.delete(key.name)));
+    deleted += page.keys.length;
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return deleted;
+}
@@ -0,0 +1,148 @@
+/**
+ * Cooperative Job Cancellation
+ *
+ * POST /cancel/:jobId flags a job as cancelled. The running job sees the flag
+ * through an AbortSignal passed to processJob:
+ * - Immediately, if the job is running in the same isolate
+ * - Within a few seconds otherwise, by polling the JOB_STATE KV namespace
+ *
+ * Once aborted, every further job.client call fails before it is sent, and
+ * in-flight calls are aborted, except ungated() calls (see ./client), which
+ * the output builder uses to roll back. The job then fails with a PROCESSING_ERROR
+ * whose reason is 'cancelled', so KladosJob records it in the klados_log and
+ * skips workflow handoff. The job record, status and job event record the
+ * job as cancelled. Outputs created before cancellation are reported in the
+ * error details.
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { entityFields, interceptClient, isUngated } from './client';
+
+/**
+ * Reason on errors of cancelled jobs; rhiza has no error code for cancellation
+ */
+export const CANCELLED = 'cancelled';
+
+/** Key prefix for cancellation flags in JOB_STATE */
+const KEY_PREFIX = 'cancel:';
+
+/** How long cancellation flags are kept */
+const FLAG_TTL_SECONDS = 24 * 60 * 60;
+
+/** How often running jobs check KV for a cancellation flag */
+const POLL_INTERVAL_MS = 2000;
+
+/** Controllers for jobs running in this isolate */
+const running = new Map<string, AbortController>();
+
+/**
+ * Cancellation state for one running job
+ */
+export interface Cancellation {
+  /** Aborted when the job is cancelled; pass to long-running work */
+  signal: AbortSignal;
+  /** Output entity IDs created so far */
+  outputIds: string[];
+  /** Stop watching for cancellation */
+  dispose(): void;
+}
+
+function cancelledError(jobId: string, outputIds: string[] = []) {
+  const error = createKladosError(
+    KladosErrorCode.PROCESSING_ERROR,
+    `Job ${jobId} was cancelled`,
+    { reason: CANCELLED, partialOutputIds: outputIds }
+  );
+  return Object.assign(error, { reason: CANCELLED, retryable: false });
+}
+
+/**
+ * Whether an error is a job cancellation
+ */
+export function isCancellation(err: unknown): boolean {
+  return typeof err === 'object' && err !== null && (err as { reason?: string }).reason === CANCELLED;
+}
+
+/**
+ * Watch a job for cancellation
+ *
+ * Registers the job in this isolate, polls KV when available, and intercepts
+ * job.client so calls stop once the job is cancelled.
+ */
+export function trackCancellation(job: KladosJob, kv?: KVNamespace): Cancellation {
+  const jobId: string = job.request.job_id;
+  const controller = new AbortController();
+  const outputIds: string[] = [];
+  const signal = controller.signal;
+
+  // Only intercept while processJob runs, so KladosJob can still finalize
+  // the log after a cancellation
+  let active = true;
+
+  running.set(jobId, controller);
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  if (kv) {
+    const poll = async () => {
+      try {
+        if (!signal.aborted && (await kv.get(`${KEY_PREFIX}${jobId}`)) !== null) {
+          controller.abort(cancelledError(jobId));
+        }
+      } catch {
+        // A failed read must not become an unhandled rejection; the next poll retries
+      }
+    };
+    void poll();
+    timer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+  }
+
+  interceptClient(job, async (call, next) => {
+    if (!active || isUngated(call)) return next(call);
+
+    signal.throwIfAborted();
+    const result = await next({ ...call, init: { signal, ...call.init } });
+
+    const created = entityFields(result.data).id;
+    if (call.method === 'POST' && call.path === '/entities' && created) {
+      outputIds.push(created);
+    }
+    return result;
+  });
+
+  return {
+    signal,
+    outputIds,
+    dispose() {
+      active = false;
+      if (timer) clearInterval(timer);
+      running.delete(jobId);
+    },
+  };
+}
+
+/**
+ * Convert whatever an aborted job threw into a cancellation error that reports
+ * the outputs created before cancellation
+ */
+export function toCancelledError(job: KladosJob, cancellation: Cancellation) {
+  const error = cancelledError(job.request.job_id, cancellation.outputIds);
+  job.log.warning('Job cancelled', { partialOutputIds: cancellation.outputIds });
+  return error;
+}
+
+/**
+ * Request cancellation of a job
+ *
+ * @returns true if the job was running in this isolate and has been aborted
+ */
+export async function cancelJob(jobId: string, kv?: KVNamespace): Promise<boolean> {
+  if (kv) {
+    await kv.put(`${KEY_PREFIX}${jobId}`, new Date().toISOString(), {
+      expirationTtl: FLAG_TTL_SECONDS,
+    });
+  }
+
+  const controller = running.get(jobId);
+  controller?.abort(cancelledError(jobId));
+  return controller !== undefined;
+}
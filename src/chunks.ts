@@ -0,0 +1,208 @@
+/**
+ * Chunked Outputs
+ *
+ * An entity can only hold so much, so results too large for one output's
+ * properties (full-text OCR, transcripts) are split across ordered chunk
+ * entities:
+ *
+ *   output  { ..., chunked: { field, count, bytes, chunk_type } }
+ *     └─ has_part → each chunk
+ *   chunk i { index: i, [field]: part }
+ *     ├─ part_of → output
+ *     └─ next → chunk i + 1
+ *
+ * addChunked queues the output and its chunks on an OutputBuilder, so they
+ * are created, and rolled back, together; results that fit are stored inline
+ * as usual. Only the output should be handed off: the returned handle lists
+ * its chunks so their IDs can be left out. readChunked is the reader for
+ * downstream kladoi: it returns the full value either way.
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { apiError } from './retry';
+import type { OutputBuilder, OutputHandle } from './outputs';
+import type { OutputProperties } from './types';
+
+/** Type of chunk entities */
+export const CHUNK_TYPE = 'output_chunk';
+
+/** Largest value stored inline, in UTF-8 bytes */
+export const DEFAULT_MAX_INLINE_BYTES = 64 * 1024;
+
+/**
+ * Where a chunked value went, stored on the output in place of it
+ */
+export interface ChunkManifest {
+  /** Property that was chunked */
+  field: string;
+  /** Number of chunks */
+  count: number;
+  /** Size of the whole value, in UTF-8 bytes */
+  bytes: number;
+  chunk_type: string;
+}
+
+/**
+ * Handle for an output queued by addChunked
+ */
+export interface ChunkedHandle extends OutputHandle {
+  /** Chunk outputs, in order; empty if the value stayed inline */
+  readonly chunks: readonly OutputHandle[];
+}
+
+export interface ChunkOptions {
+  /** Property to chunk (default: 'result') */
+  field?: string;
+  /** Values up to this size stay inline, and chunks hold at most this much (default: 64 KB) */
+  maxBytes?: number;
+}
+
+interface StoredEntity {
+  id: string;
+  properties: Record<string, unknown>;
+  relationships?: Array<{ predicate: string; peer: string }>;
+}
+
+/**
+ * UTF-8 size of a code point
+ */
+function utf8Length(codePoint: number): number {
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * UTF-8 size of a string
+ */
+export function byteLength(text: string): number {
+  let bytes = 0;
+  for (const char of text) bytes += utf8Length(char.codePointAt(0)!);
+  return bytes;
+}
+
+/**
+ * Split text into parts of at most maxBytes UTF-8 bytes, never inside a character
+ */
+export function splitText(text: string, maxBytes: number): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let offset = 0;
+  let bytes = 0;
+
+  for (const char of text) {
+    const size = utf8Length(char.codePointAt(0)!);
+    if (bytes + size > maxBytes && offset > start) {
+      parts.push(text.slice(start, offset));
+      start = offset;
+      bytes = 0;
+    }
+    bytes += size;
+    offset += char.length;
+  }
+  if (offset > start) parts.push(text.slice(start, offset));
+
+  return parts;
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/**
+ * Queue an output, splitting its `field` into chunk outputs if it's too large
+ *
+ * @returns The output's handle; relate it and hand off its ID as usual, but
+ *          not those of its chunks
+ */
+export function addChunked<T extends OutputProperties>(
+  outputs: OutputBuilder<T>,
+  type: string,
+  properties: T,
+  options: ChunkOptions = {}
+): ChunkedHandle {
+  const field = options.field ?? 'result';
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_INLINE_BYTES;
+  const value = properties[field];
+
+  const bytes = typeof value === 'string' ? byteLength(value) : 0;
+  if (typeof value !== 'string' || bytes <= maxBytes) {
+    return Object.assign(outputs.add(type, properties), { chunks: [] });
+  }
+
+  const parts = splitText(value, maxBytes);
+  const { [field]: _, ...rest } = properties;
+  const chunked: ChunkManifest = { field, count: parts.length, bytes, chunk_type: CHUNK_TYPE };
+  const output = outputs.add(type, { ...rest, chunked } as unknown as T);
+
+  const chunks = parts.map((part, index) =>
+    outputs.add(CHUNK_TYPE, { index, [field]: part } as unknown as T).partOf(output)
+  );
+  chunks.forEach((chunk, index) => {
+    output.relate('has_part', chunk);
+    if (index > 0) chunks[index - 1].relate('next', chunk);
+  });
+
+  return Object.assign(output, { chunks });
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+async function getEntity(job: KladosJob, id: string): Promise<StoredEntity> {
+  const result = await job.client.api.GET('/entities/{id}', { params: { path: { id } } });
+  if (result.error || !result.data) {
+    throw apiError(`Failed to fetch entity ${id}`, result);
+  }
+  return result.data as unknown as StoredEntity;
+}
+
+/**
+ * Read a property of an output, reassembling it if it was chunked
+ *
+ * @param entity - The output, or its ID
+ * @param field - Property to read (default: the chunked one, or 'result')
+ * @returns The value, or undefined if the output doesn't have it
+ * @throws KladosError (PROCESSING_ERROR) if chunks are missing
+ */
+export async function readChunked(
+  job: KladosJob,
+  entity: string | StoredEntity,
+  field?: string
+): Promise<string | undefined> {
+  const output = typeof entity === 'string' ? await getEntity(job, entity) : entity;
+  const manifest = output.properties.chunked as ChunkManifest | undefined;
+
+  if (!manifest || (field !== undefined && field !== manifest.field)) {
+    const value = output.properties[field ?? 'result'];
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  // Listed relationships may be omitted, e.g. when the output came from a collection listing
+  const relationships = output.relationships ?? (await getEntity(job, output.id)).relationships;
+  const chunkIds = (relationships ?? [])
+    .filter((rel) => rel.predicate === 'has_part')
+    .map((rel) => rel.peer);
+  const chunks = await Promise.all(chunkIds.map((id) => getEntity(job, id)));
+
+  const parts: string[] = [];
+  for (const chunk of chunks) {
+    const index = chunk.properties.index;
+    const part = chunk.properties[manifest.field];
+    if (typeof index === 'number' && typeof part === 'string') parts[index] = part;
+  }
+
+  const missing = Array.from({ length: manifest.count }, (_, i) => i).filter(
+    (i) => parts[i] === undefined
+  );
+  if (missing.length > 0) {
+    throw createKladosError(
+      KladosErrorCode.PROCESSING_ERROR,
+      `Output ${output.id} is missing chunks ${missing.join(', ')} of ${manifest.count}`
+    );
+  }
+
+  return parts.slice(0, manifest.count).join('');
+}
@@ -0,0 +1,129 @@
+/**
+ * Client Interceptors
+ *
+ * Wraps the methods of job.client.api so cross-cutting concerns can observe
+ * or alter every Arke API call a job makes, without changing processJob.
+ * Each interceptor wraps the ones added before it, so the last added runs first.
+ *
+ * Interceptors that refuse calls (cancellation, budget) let calls whose init
+ * was passed through ungated() through, so cleanup such as rolling back
+ * outputs still runs after a job is cancelled or out of budget.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * An API call as made through job.client.api, e.g.
+ * api.POST('/entities', { body }) → { method: 'POST', path: '/entities', init: { body } }
+ */
+export interface ApiCall {
+  method: HttpMethod;
+  path: string;
+  init: ApiInit;
+}
+
+/**
+ * Options of an API call, in openapi-fetch shape
+ */
+export interface ApiInit {
+  params?: {
+    path?: Record<string, string | undefined>;
+    query?: Record<string, unknown>;
+  };
+  body?: unknown;
+  signal?: AbortSignal;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of an API call, in openapi-fetch shape
+ */
+export interface ApiResult {
+  data?: unknown;
+  error?: unknown;
+  response?: Response;
+}
+
+/**
+ * Entity fields of a request body or response, where present
+ */
+export interface EntityFields {
+  id?: string;
+  cid?: string;
+  type?: string;
+  collection?: string;
+  properties?: Record<string, unknown>;
+  relationships?: Array<{ predicate: string; peer: string }>;
+}
+
+/**
+ * Read a request body or response as an entity (no fields if it isn't an object)
+ */
+export function entityFields(value: unknown): EntityFields {
+  return typeof value === 'object' && value !== null ? (value as EntityFields) : {};
+}
+
+export type ApiInterceptor = (
+  call: ApiCall,
+  next: (call: ApiCall) => Promise<ApiResult>
+) => Promise<ApiResult>;
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Inits of calls that gating interceptors let through */
+const UNGATED = new WeakSet<object>();
+
+/**
+ * Mark a call's init so cancellation and the budget don't refuse it, e.g.
+ * api.DELETE('/entities/{id}', ungated({ params: { path: { id } } }))
+ *
+ * Interceptors must pass the init on unchanged for the mark to hold.
+ */
+export function ungated<T extends object>(init: T): T {
+  UNGATED.add(init);
+  return init;
+}
+
+/**
+ * Whether a call was marked with ungated()
+ */
+export function isUngated(call: ApiCall): boolean {
+  return UNGATED.has(call.init);
+}
+
+/**
+ * Whether a call changes state in Arke
+ */
+export function isMutating(call: ApiCall): boolean {
+  return call.method !== 'GET';
+}
+
+/**
+ * Resolve path parameters, e.g. '/entities/{id}' → '/entities/ent_1'
+ */
+export function resolvePath(call: ApiCall): string {
+  const params: Record<string, unknown> = call.init.params?.path ?? {};
+  return call.path.replace(/\{(\w+)\}/g, (match, key) =>
+    key in params ? String(params[key]) : match
+  );
+}
+
+/**
+ * Add an interceptor to every method of job.client.api
+ */
+export function interceptClient(job: KladosJob, interceptor: ApiInterceptor): void {
+  const api = job.client.api as unknown as Record<
+    HttpMethod,
+    ((path: string, init?: ApiInit) => Promise<ApiResult>) | undefined
+  >;
+
+  for (const method of METHODS) {
+    const original = api[method];
+    if (!original) continue;
+
+    const next = (call: ApiCall) => original.call(api, call.path, call.init);
+    api[method] = (path, init = {}) => interceptor({ method, path, init }, next);
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Content Loading
+ *
+ * Downloads the content a target refers to, for workers that process files
+ * or web pages rather than entity properties:
+ * - File entities (properties include content_type): GET /entities/{id}/content
+ * - URL targets (properties.url): fetched directly, http(s) only
+ * - Otherwise properties.content, if it's a string
+ *
+ * Downloads are bounded: Content-Length is checked up front and the body is
+ * read as a stream that is cancelled once it passes maxBytes, so an
+ * oversized or lying server can't exhaust memory. The MIME type comes from
+ * Content-Type, or is sniffed from the first bytes when that is missing or
+ * generic; text types are decoded using the declared charset.
+ *
+ * URL downloads for a job (loadTargetContent) use the job's budget.fetch by
+ * default, so they count against its subrequest budget (see ./budget).
+ *
+ * Failures are KladosErrors:
+ * - INVALID_INPUT: oversized, unsupported type or URL scheme, no content
+ * - NOT_FOUND / NETWORK_ERROR / RATE_LIMITED: HTTP errors (see classifyStatus)
+ * - NETWORK_ERROR: unreachable host; TIMEOUT: no complete response in time
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { budgetFor } from './budget';
+import { classifyStatus } from './retry';
+import type { TargetEntity, TargetProperties } from './types';
+
+/** Default download size limit (10 MB) */
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Default time allowed for a download, including reading the body */
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+/** Bytes examined when sniffing the MIME type */
+const SNIFF_BYTES = 512;
+
+/** Magic numbers for sniffing common binary types */
+const SIGNATURES: Array<[mimeType: string, magic: number[]]> = [
+  ['application/pdf', [0x25, 0x50, 0x44, 0x46]],
+  ['image/png', [0x89, 0x50, 0x4e, 0x47]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+  ['application/zip', [0x50, 0x4b, 0x03, 0x04]],
+];
+
+export interface ContentOptions {
+  /** Largest body accepted, in bytes (default: 10 MB) */
+  maxBytes?: number;
+  /** Time allowed for the whole download (default: 15s) */
+  timeoutMs?: number;
+  /** Accepted MIME types; 'text/*' style wildcards allowed (default: any) */
+  accept?: string[];
+  /** Aborts the download, e.g. ctx.signal */
+  signal?: AbortSignal;
+  /**
+   * fetch used for URLs (default: the job's budget.fetch in loadTargetContent,
+   * the global fetch in loadUrl)
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Downloaded content
+ */
+export interface LoadedContent {
+  /** Where it came from: the URL, or entity:<id> for files and inline content */
+  source: string;
+  mimeType: string;
+  charset?: string;
+  /** Size in bytes */
+  size: number;
+  bytes: Uint8Array;
+  /** Decoded text, for text types */
+  text?: string;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+function contentError(
+  code: KladosErrorCode,
+  message: string,
+  details: Record<string, unknown>,
+  retryable = false
+) {
+  return Object.assign(createKladosError(code, message, details), { retryable });
+}
+
+function tooLarge(source: string, maxBytes: number, size?: number) {
+  return contentError(
+    KladosErrorCode.INVALID_INPUT,
+    `Content from ${source} exceeds the ${maxBytes} byte limit`,
+    { source, maxBytes, ...(size !== undefined && { size }) }
+  );
+}
+
+// =============================================================================
+// MIME types and decoding
+// =============================================================================
+
+function parseContentType(header: string | null): { mimeType?: string; charset?: string } {
+  if (!header) return {};
+  const [type, ...params] = header.split(';').map((part) => part.trim());
+  const charset = params
+    .map((param) => /^charset="?([^";]+)"?$/i.exec(param)?.[1])
+    .find((value) => value !== undefined);
+  return { mimeType: type.toLowerCase() || undefined, charset };
+}
+
+/**
+ * Guess a MIME type from the first bytes of content
+ */
+export function sniffMimeType(bytes: Uint8Array): string {
+  for (const [mimeType, magic] of SIGNATURES) {
+    if (magic.every((byte, i) => bytes[i] === byte)) return mimeType;
+  }
+
+  const head = bytes.subarray(0, SNIFF_BYTES);
+  if (head.includes(0)) return 'application/octet-stream';
+  try {
+    // The sample may end mid-character, so decode in stream mode
+    new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(head, { stream: true });
+  } catch {
+    return 'application/octet-stream';
+  }
+
+  const text = new TextDecoder().decode(head).trimStart();
+  if (text.startsWith('{') || text.startsWith('[')) return 'application/json';
+  if (/^<!doctype html|^<html/i.test(text)) return 'text/html';
+  return 'text/plain';
+}
+
+function isText(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    /^application\/(json|xml|javascript|x-ndjson)$/.test(mimeType) ||
+    /\+(json|xml)$/.test(mimeType)
+  );
+}
+
+function matches(mimeType: string, accept: string[]): boolean {
+  return accept.some((pattern) =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern
+  );
+}
+
+function decode(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+// =============================================================================
+// Reading responses
+// =============================================================================
+
+async function readCapped(
+  body: ReadableStream<Uint8Array> | null,
+  source: string,
+  maxBytes: number
+): Promise<Uint8Array> {
+  if (!body) return new Uint8Array();
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge(source, maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Read a download response into LoadedContent, enforcing size and type limits
+ */
+export async function readContent(
+  response: Response,
+  source: string,
+  options: ContentOptions = {}
+): Promise<LoadedContent> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  if (!response.ok) {
+    const { code, retryable } = classifyStatus(response.status);
+    await response.body?.cancel().catch(() => {});
+    throw contentError(
+      code,
+      `Failed to download ${source}: HTTP ${response.status}`,
+      { source, status: response.status },
+      retryable
+    );
+  }
+
+  const declaredSize = Number(response.headers.get('Content-Length'));
+  if (declaredSize > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    throw tooLarge(source, maxBytes, declaredSize);
+  }
+
+  const bytes = await readCapped(response.body, source, maxBytes);
+
+  const declared = parseContentType(response.headers.get('Content-Type'));
+  const generic = !declared.mimeType || declared.mimeType === 'application/octet-stream';
+  const mimeType = generic ? sniffMimeType(bytes) : declared.mimeType!;
+
+  if (options.accept && !matches(mimeType, options.accept)) {
+    throw contentError(
+      KladosErrorCode.INVALID_INPUT,
+      `Unsupported content type ${mimeType} from ${source}`,
+      { source, mimeType, accept: options.accept }
+    );
+  }
+
+  const text = isText(mimeType) ? decode(bytes, declared.charset) : undefined;
+  return {
+    source,
+    mimeType,
+    ...(declared.charset && { charset: declared.charset }),
+    size: bytes.byteLength,
+    bytes,
+    ...(text !== undefined && { text }),
+  };
+}
+
+/**
+ * Run a download with a timeout covering the response and its body
+ */
+async function withTimeout<T>(
+  source: string,
+  options: ContentOptions,
+  download: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  try {
+    return await download(signal);
+  } catch (err) {
+    // Cancellation takes precedence, and KladosErrors pass through
+    // (DOMExceptions have a numeric code, hence the string check)
+    if (options.signal?.aborted) throw options.signal.reason;
+    if (typeof (err as { code?: unknown } | null)?.code === 'string') throw err;
+
+    if (timeout.aborted) {
+      throw contentError(
+        KladosErrorCode.TIMEOUT,
+        `Timed out after ${timeoutMs}ms downloading ${source}`,
+        { source, timeoutMs },
+        true
+      );
+    }
+    throw contentError(
+      KladosErrorCode.NETWORK_ERROR,
+      `Could not reach ${source}: ${err instanceof Error ? err.message : String(err)}`,
+      { source },
+      true
+    );
+  }
+}
+
+// =============================================================================
+// Loaders
+// =============================================================================
+
+/**
+ * Download a URL
+ */
+export async function loadUrl(url: string, options: ContentOptions = {}): Promise<LoadedContent> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw contentError(KladosErrorCode.INVALID_INPUT, `Invalid URL: ${url}`, { source: url });
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw contentError(
+      KladosErrorCode.INVALID_INPUT,
+      `Unsupported URL scheme ${parsed.protocol} in ${url}`,
+      { source: url }
+    );
+  }
+
+  const fetcher = options.fetch ?? fetch;
+  return withTimeout(url, options, async (signal) => {
+    const response = await fetcher(parsed.toString(), { signal, redirect: 'follow' });
+    return readContent(response, url, options);
+  });
+}
+
+/**
+ * Download the file content of an entity through job.client
+ */
+export async function loadAttachment(
+  job: KladosJob,
+  entityId: string,
+  options: ContentOptions = {}
+): Promise<LoadedContent> {
+  const source = `entity:${entityId}`;
+
+  return withTimeout(source, options, async (signal) => {
+    const { response } = await job.client.api.GET('/entities/{id}/content', {
+      params: { path: { id: entityId } },
+      parseAs: 'stream',
+      signal,
+    });
+    if (!response) {
+      throw contentError(
+        KladosErrorCode.NETWORK_ERROR,
+        `No response for ${source}`,
+        { source },
+        true
+      );
+    }
+    return readContent(response, source, options);
+  });
+}
+
+/**
+ * Load a target's content: its file, its url, or its inline content property
+ */
+export async function loadTargetContent(
+  job: KladosJob,
+  target: TargetEntity<TargetProperties>,
+  options: ContentOptions = {}
+): Promise<LoadedContent> {
+  const { properties } = target;
+
+  if (typeof properties.content_type === 'string') {
+    return loadAttachment(job, target.id, options);
+  }
+  if (typeof properties.url === 'string') {
+    return loadUrl(properties.url, { fetch: budgetFor(job)?.fetch, ...options });
+  }
+  if (typeof properties.content === 'string') {
+    const bytes = new TextEncoder().encode(properties.content);
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (bytes.byteLength > maxBytes) {
+      throw tooLarge(`entity:${target.id}`, maxBytes, bytes.byteLength);
+    }
+    return {
+      source: `entity:${target.id}`,
+      mimeType: 'text/plain',
+      size: bytes.byteLength,
+      bytes,
+      text: properties.content,
+    };
+  }
+
+  throw contentError(
+    KladosErrorCode.INVALID_INPUT,
+    `Target ${target.id} has no file, url or content to load`,
+    { source: `entity:${target.id}` }
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Job Context
+ *
+ * Builds the JobContext passed to processJob. executeJob wires it to the
+ * worker's services; standalone callers (e.g. unit tests) get inert defaults.
+ */
+
+import { createBudget } from './budget';
+import { createResultCache } from './cache';
+import type { JobContext } from './types';
+
+/**
+ * Create a job context, with no-op defaults for anything not provided
+ */
+export function createJobContext(overrides: Partial<JobContext> = {}): JobContext {
+  return {
+    signal: new AbortController().signal,
+    phase: () => {},
+    budget: createBudget(),
+    cache: createResultCache(undefined, { version: 'none' }),
+    ...overrides,
+  };
+}
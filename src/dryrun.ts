@@ -0,0 +1,159 @@
+/**
+ * Dry-Run Mode
+ *
+ * POST /process/dry-run runs processJob fully against real data but performs
+ * no writes, and returns the plan of what the job would have written. Use it
+ * to validate new logic against production entities safely.
+ *
+ * - Reads (GET) go to the API as usual
+ * - Mutating job.client calls are recorded instead of sent; creates return a
+ *   placeholder ID so later steps (relationships, handoff IDs) still work
+ * - The job never goes through job.run(), so no klados_log is written and
+ *   there is no workflow handoff
+ * - Log messages are captured into the plan instead of the klados log
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { processJob } from './job';
+import { createJobContext } from './context';
+import { entityFields, interceptClient, isMutating, resolvePath } from './client';
+import { createBudget, budgetLimits } from './budget';
+import { trackProvenance } from './provenance';
+import { describeError } from './status';
+import { redactLog, redactionOptions } from './redact';
+import type { Env, ProcessJob } from './types';
+
+/** Prefix for placeholder IDs of entities a dry run would have created */
+export const DRY_RUN_ID_PREFIX = 'dry_run_';
+
+/**
+ * A write the job would have made
+ */
+export interface PlannedWrite {
+  method: string;
+  /** Path with parameters resolved, e.g. /entities/ent_1 */
+  path: string;
+  body?: unknown;
+  /** Placeholder ID returned for a create */
+  placeholder_id?: string;
+}
+
+/**
+ * Everything a dry run would have done
+ */
+export interface DryRunPlan {
+  dry_run: true;
+  job_id: string;
+  /** What processJob returned (placeholders for would-be outputs) */
+  output_ids?: string[];
+  /** Entities that would have been created */
+  entities: Array<{ id: string; type?: string; collection?: string; properties?: unknown }>;
+  /** Relationships that would have been created, including on updates */
+  relationships: Array<{ from: string; predicate: string; to: string }>;
+  /** Every mutating call, in order */
+  writes: PlannedWrite[];
+  logs: Array<{ level: string; message: string; metadata?: Record<string, unknown> }>;
+  /** What processJob threw, if it failed */
+  error?: { code?: string; message: string };
+}
+
+/**
+ * Record mutating job.client calls instead of sending them
+ *
+ * Add before other interceptors, so it sees the calls as they'd be sent.
+ */
+export function planWrites(job: KladosJob): PlannedWrite[] {
+  const writes: PlannedWrite[] = [];
+  const planned = new Map<string, Record<string, unknown>>();
+
+  interceptClient(job, async (call, next) => {
+    const path = resolvePath(call);
+
+    if (!isMutating(call)) {
+      // Reads of would-be entities can't go to the API, which has never seen them
+      const id = call.init.params?.path?.id;
+      if (call.path === '/entities/{id}' && id !== undefined && planned.has(id)) {
+        return { data: planned.get(id) };
+      }
+      return next(call);
+    }
+
+    const write: PlannedWrite = { method: call.method, path, body: call.init.body };
+    writes.push(write);
+
+    if (call.method === 'POST' && call.path === '/entities') {
+      const id = `${DRY_RUN_ID_PREFIX}${writes.length}`;
+      const entity = { ...entityFields(call.init.body), id, cid: `${id}_cid` };
+      write.placeholder_id = id;
+      planned.set(id, entity);
+      return { data: entity };
+    }
+
+    return { data: { ...entityFields(call.init.body), id: call.init.params?.path?.id } };
+  });
+
+  return writes;
+}
+
+/**
+ * Run processJob without writing anything and return the plan
+ */
+export async function dryRunJob(
+  job: KladosJob,
+  env: Env,
+  process: ProcessJob = processJob
+): Promise<DryRunPlan> {
+  const plan: DryRunPlan = {
+    dry_run: true,
+    job_id: job.request.job_id,
+    entities: [],
+    relationships: [],
+    writes: [],
+    logs: [],
+  };
+
+  // Capture logs instead of writing them to a klados_log
+  const log = job.log as unknown as Record<string, unknown>;
+  for (const level of ['info', 'success', 'warning', 'error']) {
+    log[level] = (message: string, metadata?: Record<string, unknown>) => {
+      plan.logs.push({ level, message, ...(metadata && { metadata }) });
+    };
+  }
+  // Plans are returned to the caller, so they're scrubbed like klados_log entries
+  redactLog(job, redactionOptions(env));
+
+  plan.writes = planWrites(job);
+  const stopProvenance = trackProvenance(job, env);
+
+  // No result cache: dry-run results must not be served to real jobs
+  const ctx = createJobContext({ budget: createBudget(budgetLimits(env)) });
+
+  try {
+    plan.output_ids = await process(job, ctx);
+  } catch (err) {
+    plan.error = describeError(err);
+  } finally {
+    stopProvenance();
+  }
+
+  for (const write of plan.writes) {
+    const body = (write.body ?? {}) as {
+      type?: string;
+      collection?: string;
+      properties?: unknown;
+      relationships?: Array<{ predicate: string; peer: string }>;
+      relationships_add?: Array<{ predicate: string; peer: string }>;
+    };
+    const from = write.placeholder_id ?? write.path.split('/')[2];
+
+    if (write.placeholder_id) {
+      const { type, collection, properties } = body;
+      plan.entities.push({ id: write.placeholder_id, type, collection, properties });
+    }
+    for (const rel of [...(body.relationships ?? []), ...(body.relationships_add ?? [])]) {
+      plan.relationships.push({ from, predicate: rel.predicate, to: rel.peer });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,178 @@
+/**
+ * Job Execution
+ *
+ * Runs an accepted job with the per-job services the worker provides around
+ * processJob (cancellation, budget, retries, provenance, result cache, status
+ * tracking, idempotency, metrics, notifications, log redaction).
+ * Used by both the waitUntil and queue execution modes.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { processJob } from './job';
+import { createJobContext } from './context';
+import { trackCancellation, toCancelledError, isCancellation } from './cancellation';
+import { createBudget, budgetLimits, trackBudget } from './budget';
+import { retryClient } from './retry';
+import { trackProvenance, linkProvenance } from './provenance';
+import { resultCacheFor } from './cache';
+import { runTracked, type JobRecord } from './idempotency';
+import { openStatus, type StatusTracker } from './status';
+import { MetricsRegistry, instrumentClient, recordOutcome, flushMetrics } from './metrics';
+import { jobEvent, notifyJob } from './notify';
+import { redactLog, redactionOptions } from './redact';
+import type { Env, ProcessJob } from './types';
+
+/**
+ * Result of running a job
+ */
+export interface RunOutcome {
+  /** Output entity IDs, if processing succeeded */
+  outputIds?: string[];
+  /** What processing threw, if it failed */
+  error?: unknown;
+  /** The failure will be retried, so the job was left unfinalized */
+  retrying?: boolean;
+}
+
+export interface RunOptions {
+  /** Idempotency record from recordAccepted (requires JOB_STATE) */
+  record?: JobRecord | null;
+  /** Status tracker opened when the job was accepted */
+  status?: StatusTracker;
+  /** The klados's job logic (default: ./job; see ./kladoi) */
+  processJob?: ProcessJob;
+  /**
+   * Whether a processing failure will be retried (queue mode). Processing
+   * then runs before job.run, and a failure that will be retried isn't
+   * finalized: no klados_log, batch slot update or job event.
+   */
+  willRetry?: (error: unknown) => boolean;
+  /**
+   * Keeps the worker alive for work that outlasts the job (ExecutionContext's
+   * waitUntil). Notifications are handed to it instead of being awaited.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+/**
+ * Run processJob for a job and return its output entity IDs
+ *
+ * Call inside job.run(); see runJob for the full lifecycle.
+ */
+export async function executeJob(
+  job: KladosJob,
+  env: Env,
+  status?: StatusTracker,
+  process: ProcessJob = processJob
+): Promise<string[]> {
+  const cancellation = trackCancellation(job, env.JOB_STATE);
+  const budget = createBudget(budgetLimits(env), (message, metadata) =>
+    job.log.warning(message, metadata)
+  );
+  const stopBudget = trackBudget(job, budget);
+  const stopProvenance = trackProvenance(job, env);
+  // Added last so it runs first: every attempt is charged and checked for cancellation
+  const stopRetry = retryClient(job, { signal: cancellation.signal });
+  const ctx = createJobContext({
+    signal: cancellation.signal,
+    phase: (phase) => status?.phase(phase),
+    budget,
+    cache: resultCacheFor(env),
+  });
+
+  try {
+    const outputIds = await process(job, ctx);
+    status?.handoff(outputIds);
+    return outputIds;
+  } catch (err) {
+    // Whatever the job threw after being aborted, report it as a cancellation
+    if (cancellation.signal.aborted) {
+      throw toCancelledError(job, cancellation);
+    }
+    throw err;
+  } finally {
+    cancellation.dispose();
+    stopBudget();
+    stopProvenance();
+    stopRetry();
+  }
+}
+
+/**
+ * Run a job through KladosJob's lifecycle (log, handoff, error handling)
+ *
+ * Never throws: failures are recorded by KladosJob and returned in the outcome.
+ */
+export async function runJob(
+  job: KladosJob,
+  env: Env,
+  options: RunOptions = {}
+): Promise<RunOutcome> {
+  const status = options.status ?? (await openStatus(env, job));
+  const metrics = new MetricsRegistry();
+  const outcome: RunOutcome = {};
+  const started = Date.now();
+
+  instrumentClient(job, metrics);
+  redactLog(job, redactionOptions(env));
+
+  let process = async () => {
+    try {
+      outcome.outputIds = await executeJob(job, env, status, options.processJob);
+      return outcome.outputIds;
+    } catch (err) {
+      outcome.error = err;
+      throw err;
+    }
+  };
+
+  // Outputs from a previous run are handed off without processing again
+  if (options.willRetry && !options.record?.output_ids) {
+    try {
+      const outputIds = await process();
+      // The klados_log exists once job.run starts, so outputs can now refer to it
+      process = async () => {
+        await linkProvenance(job);
+        return outputIds;
+      };
+    } catch (err) {
+      if (options.willRetry(err)) {
+        status.fail(err, 'retrying');
+        await Promise.all([status.flush(), flushMetrics(env, metrics)]);
+        return { ...outcome, retrying: true };
+      }
+      process = async () => {
+        throw err;
+      };
+    }
+  }
+
+  try {
+    if (env.JOB_STATE && options.record) {
+      await runTracked(env.JOB_STATE, options.record, job, process);
+    } else {
+      await job.run(process);
+    }
+  } catch (err) {
+    outcome.error ??= err;
+  }
+
+  if (outcome.error !== undefined) {
+    status.fail(outcome.error, isCancellation(outcome.error) ? 'cancelled' : 'failed');
+  } else {
+    status.finish();
+  }
+
+  const durationMs = Date.now() - started;
+  recordOutcome(metrics, job.request.network ?? 'test', outcome.error, durationMs);
+  // The job is finalized by now, so slow or failed notifications can't affect it
+  const notified = notifyJob(env, jobEvent(job, env, outcome, durationMs));
+  if (options.waitUntil) {
+    options.waitUntil(notified);
+  } else {
+    await notified;
+  }
+  await Promise.all([status.flush(), flushMetrics(env, metrics)]);
+
+  return outcome;
+}
@@ -0,0 +1,186 @@
+/**
+ * Idempotent Job Execution
+ *
+ * Records job execution state in KV, keyed on the request's job_id, so that
+ * retried POST /process calls and workflow re-dispatches don't create
+ * duplicate outputs:
+ *
+ *   accepted → running → processed (outputs created) → done (handed off)
+ *                     ↘ failed / cancelled
+ *
+ * Duplicates of an in-flight or finished job get the original acceptResponse
+ * and start nothing. Jobs that failed, or whose isolate was evicted mid-run,
+ * are resumed; if their outputs were already created, the recorded output IDs
+ * are reused for handoff instead of processing again. Cancelled jobs are
+ * never resumed.
+ *
+ * KV is eventually consistent, so two near-simultaneous deliveries landing in
+ * different locations can still both run. This covers the common retry case.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { isCancellation } from './cancellation';
+
+/** Key prefix for job records */
+const KEY_PREFIX = 'job:';
+
+/** How long job records are kept (7 days) */
+const RECORD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** A running job not updated for this long is assumed lost (isolate evicted) */
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+export type JobStatus = 'accepted' | 'running' | 'processed' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Persisted execution state for a job
+ */
+export interface JobRecord {
+  job_id: string;
+  status: JobStatus;
+  /** Response returned when the job was first accepted */
+  accept_response: unknown;
+  /** Output entity IDs, once created */
+  output_ids?: string[];
+  /** Last error message, if failed */
+  error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Load the record for a job, if any
+ */
+export async function getJobRecord(kv: KVNamespace, jobId: string): Promise<JobRecord | null> {
+  return kv.get<JobRecord>(`${KEY_PREFIX}${jobId}`, 'json');
+}
+
+/**
+ * Store the record for a job
+ */
+export async function putJobRecord(kv: KVNamespace, record: JobRecord): Promise<void> {
+  await kv.put(`${KEY_PREFIX}${record.job_id}`, JSON.stringify(record), {
+    expirationTtl: RECORD_TTL_SECONDS,
+  });
+}
+
+/**
+ * Whether a previously seen job should be run again
+ *
+ * Failed, processed-but-not-handed-off and stale in-flight jobs are resumed;
+ * fresh in-flight and done jobs are left alone.
+ */
+export function isResumable(record: JobRecord, now: number = Date.now()): boolean {
+  switch (record.status) {
+    case 'failed':
+    case 'processed':
+      return true;
+    case 'accepted':
+    case 'running':
+      return now - Date.parse(record.updated_at) > STALE_AFTER_MS;
+    case 'done':
+    case 'cancelled':
+      return false;
+  }
+}
+
+/**
+ * Record that a job was accepted (before returning the accept response)
+ *
+ * @param prior - Existing record when resuming; its accept response and
+ *                output IDs are carried over
+ */
+export async function recordAccepted(
+  kv: KVNamespace,
+  job: KladosJob,
+  prior: JobRecord | null
+): Promise<JobRecord> {
+  const now = new Date().toISOString();
+  const record: JobRecord = {
+    job_id: job.request.job_id,
+    status: 'accepted',
+    accept_response: prior?.accept_response ?? job.acceptResponse,
+    output_ids: prior?.output_ids,
+    created_at: prior?.created_at ?? now,
+    updated_at: now,
+  };
+
+  await putJobRecord(kv, record);
+  return record;
+}
+
+/**
+ * Undo recordAccepted for a job that couldn't be started
+ *
+ * Restores the record it replaced, or removes it, so a retry of the request
+ * is accepted again instead of being answered as a duplicate.
+ */
+export async function revertAccepted(
+  kv: KVNamespace,
+  jobId: string,
+  prior: JobRecord | null
+): Promise<void> {
+  if (prior) {
+    await putJobRecord(kv, prior);
+  } else {
+    await kv.delete(`${KEY_PREFIX}${jobId}`);
+  }
+}
+
+/**
+ * Run a job, tracking its state in KV
+ *
+ * If the record already has output IDs, processing is skipped and those IDs
+ * are handed off again. A job whose handoff fails is recorded as failed but
+ * keeps its output IDs, so a retry only repeats the handoff.
+ */
+export async function runTracked(
+  kv: KVNamespace,
+  record: JobRecord,
+  job: KladosJob,
+  process: () => Promise<string[]>
+): Promise<void> {
+  const update = (changes: Partial<JobRecord>) => {
+    record = { ...record, ...changes, updated_at: new Date().toISOString() };
+    return putJobRecord(kv, record);
+  };
+  const finished = () => record.status === 'failed' || record.status === 'cancelled';
+
+  try {
+    await job.run(async () => {
+      if (record.output_ids) {
+        job.log.info('Reusing outputs from previous run', { outputIds: record.output_ids });
+        return record.output_ids;
+      }
+
+      await update({ status: 'running' });
+
+      try {
+        const outputIds = await process();
+        await update({ status: 'processed', output_ids: outputIds });
+        return outputIds;
+      } catch (err) {
+        await update({
+          status: isCancellation(err) ? 'cancelled' : 'failed',
+          error: errorMessage(err),
+        });
+        throw err;
+      }
+    });
+  } catch (err) {
+    // Processing failures are recorded above; anything else failed in handoff
+    if (!finished()) {
+      await update({ status: 'failed', error: errorMessage(err) });
+    }
+    throw err;
+  }
+
+  // job.run has finished handoff; failed and cancelled jobs keep their status
+  if (!finished()) {
+    await update({ status: 'done' });
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
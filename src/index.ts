@@ -7,27 +7,112 @@
  * 3. Creates output entities
  * 4. Hands off to the next step in the workflow
  *
+ * Jobs run in waitUntil by default, or on a Cloudflare Queue when
+ * EXECUTION_MODE is "queue" (see ./queue). An optional cron trigger sweeps
+ * collections for entities that were never processed (see ./sweep).
+ *
  * The worker uses KladosJob from @arke-institute/rhiza which handles:
  * - Log entry creation and finalization
  * - Error handling (both log and batch slot updates)
  * - Workflow handoff via interpretThen
  */
 
-import { Hono } from 'hono';
-import { KladosJob, getKladosConfig, type KladosRequest } from '@arke-institute/rhiza';
-import { processJob } from './job';
+import { Hono, type Context } from 'hono';
+import {
+  KladosJob,
+  KladosErrorCode,
+  getKladosConfig,
+  type KladosRequest,
+} from '@arke-institute/rhiza';
+import { runJob } from './execute';
+import { requireArkeSignature } from './auth';
+import { validateRequest } from './validation';
+import { getJobRecord, isResumable, recordAccepted, revertAccepted } from './idempotency';
+import { handleQueue, isQueueMode } from './queue';
+import { cancelJob } from './cancellation';
+import { openStatus, getJobStatus, listJobStatuses } from './status';
+import { countAccepted, renderMetrics, MetricsAggregator } from './metrics';
+import { purgeCache } from './cache';
+import { dryRunJob } from './dryrun';
+import { handleScheduled } from './sweep';
+import {
+  KLADOI,
+  KLADOS_PATH_PREFIX,
+  describeKlados,
+  findKlados,
+  hostKlados,
+  hostedKladoi,
+  resolveKlados,
+  verificationFor,
+  type HostedKlados,
+} from './kladoi';
 import type { Env } from './types';
 
 const app = new Hono<{ Bindings: Env }>();
 
+/**
+ * Read a job request and check it against the contract of the klados it's for
+ *
+ * @param name - Klados named by the path (/kladoi/:name/...); the request's
+ *   klados_id must then be that klados's
+ * @returns The request and its klados, or an error response
+ */
+async function readJobRequest(
+  c: Context<{ Bindings: Env }>,
+  name?: string
+): Promise<{ req: KladosRequest; klados: HostedKlados } | Response> {
+  const body = await c.req.json<unknown>().catch(() => undefined);
+  const fields =
+    typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+  const resolved = resolveKlados(c.env, fields);
+  const klados = name === undefined || resolved?.name === name ? resolved : undefined;
+
+  if (!klados) {
+    return c.json(
+      { error: 'Unknown klados', code: KladosErrorCode.NOT_FOUND, klados_id: fields.klados_id },
+      404
+    );
+  }
+
+  const issues = validateRequest(body, klados.agent);
+  if (issues.length > 0) {
+    return c.json(
+      { error: 'Invalid request', code: KladosErrorCode.INVALID_INPUT, issues },
+      400
+    );
+  }
+
+  return { req: body as KladosRequest, klados };
+}
+
 /**
  * Health check endpoint
+ * Lists every hosted klados (see ./kladoi); agent_id is the primary's.
  */
 app.get('/health', (c) => {
   return c.json({
     status: 'ok',
     agent_id: c.env.AGENT_ID,
     version: c.env.AGENT_VERSION,
+    kladoi: hostedKladoi(c.env).map(describeKlados),
+  });
+});
+
+/**
+ * Prometheus metrics endpoint
+ * Requires `Authorization: Bearer <METRICS_TOKEN>`; disabled until METRICS_TOKEN is set.
+ */
+app.get('/metrics', async (c) => {
+  const token = c.env.METRICS_TOKEN;
+  if (!token) {
+    return c.json({ error: 'Metrics not configured' }, 404);
+  }
+  if (c.req.header('Authorization') !== `Bearer ${token}`) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  return c.text(await renderMetrics(c.env), 200, {
+    'Content-Type': 'text/plain; version=0.0.4',
   });
 });
 
@@ -36,49 +121,212 @@ app.get('/health', (c) => {
  * Required to verify ownership of this endpoint before activating the klados.
  * Returns the verification token provided during registration.
  *
- * Uses ARKE_VERIFY_AGENT_ID during initial verification (before AGENT_ID is set),
- * then falls back to AGENT_ID for subsequent verifications.
+ * Arke calls it at the klados's registered endpoint: the worker root for the
+ * primary, /kladoi/:name for the others (see ./kladoi), so each klados is
+ * verified with its own token.
  */
 app.get('/.well-known/arke-verification', (c) => {
-  const token = c.env.VERIFICATION_TOKEN;
-  // Use verification-specific agent ID if set, otherwise fall back to main AGENT_ID
-  const kladosId = c.env.ARKE_VERIFY_AGENT_ID || c.env.AGENT_ID;
-
-  if (!token || !kladosId) {
+  const verification = verificationFor(hostKlados(c.env, KLADOI[0]));
+  if (!verification) {
     return c.json({ error: 'Verification not configured' }, 500);
   }
+  return c.json(verification);
+});
 
-  return c.json({
-    verification_token: token,
-    klados_id: kladosId,
-  });
+app.get(`${KLADOS_PATH_PREFIX}/:name/.well-known/arke-verification`, (c) => {
+  const klados = findKlados(c.env, c.req.param('name'));
+  if (!klados) {
+    return c.json({ error: 'Unknown klados', code: KladosErrorCode.NOT_FOUND }, 404);
+  }
+
+  const verification = verificationFor(klados);
+  if (!verification) {
+    return c.json({ error: 'Verification not configured' }, 500);
+  }
+  return c.json(verification);
 });
 
 /**
  * Main job processing endpoint
  * The API calls POST /process to invoke the klados
+ *
+ * Once ARKE_SIGNING_SECRET is provisioned, requests must carry a valid Arke
+ * signature (see ./auth); unsigned or stale requests are rejected with 401
+ * before any job is accepted. Requests go to the hosted klados named by
+ * klados_id (404 if none matches, see ./kladoi), and are rejected with 400 if
+ * they don't match its contract.
+ * Kladoi other than the primary are also served at /kladoi/:name/process,
+ * their registered endpoint.
  */
-app.post('/process', async (c) => {
-  const req = await c.req.json<KladosRequest>();
-
-  // Accept the job using network-aware config
-  // This enables single worker deployment to serve both test and main networks
-  const config = getKladosConfig(c.env, req.network);
-  const job = KladosJob.accept(req, config);
-
-  // Process in background - KladosJob handles:
-  // - Writing initial log entry
-  // - Catching errors and updating log + batch slot
-  // - Executing workflow handoffs
-  // - Finalizing log on completion
-  c.executionCtx.waitUntil(
-    job.run(async () => {
-      return await processJob(job);
-    })
-  );
-
-  // Return acceptance immediately
-  return c.json(job.acceptResponse);
+app.on(
+  'POST',
+  ['/process', `${KLADOS_PATH_PREFIX}/:name/process`],
+  requireArkeSignature({ optional: true }),
+  async (c) => {
+    const parsed = await readJobRequest(c, c.req.param('name'));
+    if (parsed instanceof Response) return parsed;
+
+    const { req, klados } = parsed;
+    const store = c.env.JOB_STATE;
+
+    // Duplicate delivery of a job that is in flight or done: return the
+    // original acceptance without starting anything (see ./idempotency)
+    const prior = store ? await getJobRecord(store, req.job_id) : null;
+    if (prior && !isResumable(prior)) {
+      return c.json(prior.accept_response);
+    }
+
+    // Accept the job using network-aware config
+    // This enables single worker deployment to serve both test and main networks
+    const config = getKladosConfig(klados.env, req.network);
+    const job = KladosJob.accept(req, config);
+
+    // Queue mode: the queue() consumer runs the job (see ./queue). The record
+    // is written before sending, so it can't overwrite the consumer's, and
+    // reverted if the job can't be queued, so Arke's retry isn't answered as
+    // a duplicate. Status and metrics only count jobs that were queued.
+    if (isQueueMode(c.env)) {
+      const queue = c.env.JOB_QUEUE;
+      if (!queue) {
+        return c.json({ error: 'Job queue not configured' }, 500);
+      }
+
+      const record = store ? await recordAccepted(store, job, prior) : null;
+      try {
+        await queue.send(req);
+      } catch {
+        if (store) await revertAccepted(store, req.job_id, prior);
+        return c.json({ error: 'Failed to queue job', code: KladosErrorCode.NETWORK_ERROR }, 503);
+      }
+
+      await openStatus(klados.env, job);
+      c.executionCtx.waitUntil(countAccepted(c.env, req.network ?? 'test'));
+      return c.json(record?.accept_response ?? job.acceptResponse);
+    }
+
+    const record = store ? await recordAccepted(store, job, prior) : null;
+    const status = await openStatus(klados.env, job);
+    c.executionCtx.waitUntil(countAccepted(c.env, req.network ?? 'test'));
+
+    // Process in background - KladosJob handles:
+    // - Writing initial log entry
+    // - Catching errors and updating log + batch slot
+    // - Executing workflow handoffs
+    // - Finalizing log on completion
+    c.executionCtx.waitUntil(
+      runJob(job, klados.env, {
+        record,
+        status,
+        processJob: klados.processJob,
+        waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+      })
+    );
+
+    // Return acceptance immediately
+    return c.json(record?.accept_response ?? job.acceptResponse);
+  }
+);
+
+/**
+ * Dry-run endpoint
+ * Runs processJob on a request like /process, but records writes instead of
+ * making them and returns the plan (see ./dryrun). Nothing is logged to
+ * Arke and there is no workflow handoff.
+ *
+ * Signed like /process, and served per klados the same way. Runs
+ * synchronously, so the response waits for the job.
+ */
+app.on(
+  'POST',
+  ['/process/dry-run', `${KLADOS_PATH_PREFIX}/:name/process/dry-run`],
+  requireArkeSignature(),
+  async (c) => {
+    const parsed = await readJobRequest(c, c.req.param('name'));
+    if (parsed instanceof Response) return parsed;
+
+    const { req, klados } = parsed;
+    const job = KladosJob.accept(req, getKladosConfig(klados.env, req.network));
+
+    return c.json(await dryRunJob(job, klados.env, klados.processJob));
+  }
+);
+
+/**
+ * Job cancellation endpoint
+ * Flags a job as cancelled; the running job stops at its next checkpoint,
+ * records the cancellation in its klados_log and skips workflow handoff.
+ *
+ * Signed like /process; the signature covers the path, so it names the job.
+ * Without the JOB_STATE binding, only jobs running in the isolate that
+ * receives this request can be cancelled.
+ */
+app.post('/cancel/:jobId', requireArkeSignature(), async (c) => {
+  const jobId = c.req.param('jobId');
+  const store = c.env.JOB_STATE;
+
+  if (store) {
+    const record = await getJobRecord(store, jobId);
+    if (!record) {
+      return c.json({ error: 'Job not found', job_id: jobId }, 404);
+    }
+    if (record.status === 'done' || record.status === 'failed' || record.status === 'cancelled') {
+      return c.json({ error: 'Job already finished', job_id: jobId, status: record.status }, 409);
+    }
+  }
+
+  const signalled = await cancelJob(jobId, store);
+  if (!store && !signalled) {
+    return c.json({ error: 'Job not running on this isolate', job_id: jobId }, 404);
+  }
+
+  return c.json({ job_id: jobId, status: 'cancelling' }, 202);
+});
+
+/**
+ * Job status endpoint
+ * Returns the job's phase, per-phase timings, output IDs and last error.
+ */
+app.get('/jobs/:jobId', requireArkeSignature(), async (c) => {
+  const jobId = c.req.param('jobId');
+  const status = await getJobStatus(c.env, jobId);
+
+  if (!status) {
+    return c.json({ error: 'Job not found', job_id: jobId }, 404);
+  }
+
+  return c.json(status);
+});
+
+/**
+ * Recent jobs endpoint
+ * Lists the most recent jobs on a network, newest first.
+ * Query: ?network=test|main (default: test), ?limit=N (default: 20, max: 100)
+ */
+app.get('/jobs', requireArkeSignature(), async (c) => {
+  const network = c.req.query('network') ?? 'test';
+  const limit = Math.min(Math.max(Number(c.req.query('limit')) || 20, 1), 100);
+
+  return c.json({ network, jobs: await listJobStatuses(c.env, network, limit) });
 });
 
-export default app;
+/**
+ * Result cache purge endpoint
+ * Deletes every cached result for a worker version (see ./cache).
+ */
+app.delete('/cache/:version', requireArkeSignature(), async (c) => {
+  const version = c.req.param('version');
+
+  if (!c.env.RESULT_CACHE) {
+    return c.json({ error: 'Result cache not configured' }, 404);
+  }
+
+  return c.json({ version, deleted: await purgeCache(c.env.RESULT_CACHE, version) });
+});
+
+export { app, MetricsAggregator };
+
+export default {
+  fetch: app.fetch,
+  queue: handleQueue,
+  scheduled: handleScheduled,
+} satisfies ExportedHandler<Env, KladosRequest>;
@@ -5,110 +5,324 @@
  * Customize the processJob function to implement your worker's behavior.
  */
 
-import type { KladosJob } from '@arke-institute/rhiza';
-import type { TargetProperties, OutputProperties } from './types';
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { validateTarget } from './validation';
+import { fetchEntity, processBatch, type BatchOptions } from './batch';
+import { isBudgetExhausted } from './budget';
+import { updateEntity } from './update';
+import { createOutputBuilder } from './outputs';
+import { addChunked, byteLength, DEFAULT_MAX_INLINE_BYTES } from './chunks';
+import { createJobContext } from './context';
+import { createPipeline, step, type Pipeline, type PipelineHooks, type Step } from './pipeline';
+import type {
+  JobContext,
+  OutputMode,
+  TargetEntity,
+  TargetProperties,
+  OutputProperties,
+} from './types';
+
+/** Type of the output entity created by this worker (must be in agent.json produces.types) */
+const OUTPUT_TYPE = 'processed_output';
+
+/** Create an output entity, update the target in place, or both (see OutputMode) */
+const OUTPUT_MODE: OutputMode = 'create';
+
+/** What each OutputMode writes */
+const MODE_WRITES: Record<OutputMode, { output: boolean; target: boolean }> = {
+  create: { output: true, target: false },
+  update: { output: false, target: true },
+  both: { output: true, target: true },
+};
 
 /**
- * Process a job and return output entity IDs
+ * Target properties processEntity's result depends on. Together with the
+ * target's ID they key the result cache, so edits to other properties don't
+ * force reprocessing. Add any property processEntity reads to this list.
+ */
+const CACHE_KEY_PROPERTIES = ['title', 'content', 'url'];
+
+/** Batch settings for cardinality: 'many' (target_entities) */
+const BATCH_OPTIONS: BatchOptions = {
+  concurrency: 5,
+  maxFailureRatio: 0.5,
+};
+
+/**
+ * Result of the process step, passed to the write step
+ */
+export interface ProcessedTarget {
+  target: TargetEntity<TargetProperties>;
+  result: string;
+}
+
+/**
+ * The steps each target goes through (see ./pipeline)
  *
- * This is where you implement your worker's core logic:
- * 1. Fetch and validate the target entity
- * 2. Process the entity (AI calls, transformations, etc.)
- * 3. Create output entities
- * 4. Return the output entity IDs
+ * fetch takes a target ID, or undefined for request.target_entity.
+ */
+export interface TemplateSteps {
+  fetch: Step<string | undefined, TargetEntity<TargetProperties>>;
+  validate: Step<TargetEntity<TargetProperties>, TargetEntity<TargetProperties>>;
+  process: Step<TargetEntity<TargetProperties>, ProcessedTarget>;
+  write: Step<ProcessedTarget, string[]>;
+}
+
+// =============================================================================
+// Default steps
+// =============================================================================
+
+/**
+ * Step 1: Fetch the target entity
+ */
+const fetchStep = step<string | undefined, TargetEntity<TargetProperties>>(
+  'fetch',
+  async (id, { job }) => {
+    const target = id
+      ? await fetchEntity<TargetProperties>(job, id)
+      : await job.fetchTarget<TargetProperties>();
+
+    job.log.info('Fetched target entity', {
+      id: target.id,
+      type: target.type,
+      title: target.properties.title,
+    });
+    return target;
+  },
+  { phase: 'fetching_target' }
+);
+
+/**
+ * Step 2: Validate the target (optional but recommended)
  *
- * The KladosJob handles logging, error handling, and workflow handoff.
+ * Checks the type against agent.json accepts.types and the properties in
+ * REQUIRED_TARGET_PROPERTIES (see ./validation). Add custom checks here:
+ * if (!target.properties.content) {
+ *   throw createKladosError(
+ *     KladosErrorCode.INVALID_INPUT,
+ *     'Target entity must have content property'
+ *   );
+ * }
+ */
+const validateStep = step<TargetEntity<TargetProperties>, TargetEntity<TargetProperties>>(
+  'validate',
+  (target) => {
+    validateTarget(target);
+    return target;
+  }
+);
+
+/**
+ * Step 3: Process the entity
  *
- * @param job - The KladosJob instance (provides client, logger, request info)
- * @returns Array of output entity IDs
+ * Replace processEntity with your actual processing logic:
+ * - AI/LLM calls
+ * - Data transformation
+ * - External API calls
+ * - File or URL content: loadTargetContent(job, target, { signal: ctx.signal })
+ *   from ./content, which charges downloads to ctx.budget
+ * - etc.
  */
-export async function processJob(job: KladosJob): Promise<string[]> {
-  job.log.info('Starting job processing', {
-    target: job.request.target_entity,
-    isWorkflow: job.isWorkflow,
-  });
+const processStep = step<TargetEntity<TargetProperties>, ProcessedTarget>(
+  'process',
+  async (target, { job, ctx }) => {
+    job.log.info('Processing entity...');
 
-  // =========================================================================
-  // Step 1: Fetch the target entity
-  // =========================================================================
+    // Reuses the result for unchanged inputs when RESULT_CACHE is bound. The
+    // result names the entity, so its ID is part of the key.
+    const { value: result, hit } = await ctx.cache.getOrCompute(
+      { id: target.id, ...pickProperties(target.properties, CACHE_KEY_PROPERTIES) },
+      () => {
+        // Fail cleanly rather than start work the job can't finish. For outbound
+        // calls use ctx.budget.fetch, and check ctx.budget.remaining() before
+        // expensive steps.
+        ctx.budget.check();
+        return processEntity(target.id, target.properties, ctx.signal);
+      }
+    );
 
-  const target = await job.fetchTarget<TargetProperties>();
-  job.log.info('Fetched target entity', {
-    id: target.id,
-    type: target.type,
-    title: target.properties.title,
-  });
+    if (hit) {
+      job.log.info('Cache hit, reusing previous result', { id: target.id });
+    }
 
-  // =========================================================================
-  // Step 2: Validate the target (optional but recommended)
-  // =========================================================================
+    job.log.info('Processing complete', {
+      resultLength: result.length,
+    });
+    return { target, result };
+  },
+  { phase: 'processing' }
+);
 
-  // Example validation - customize for your use case
-  // if (!target.properties.content) {
-  //   throw createKladosError(
-  //     KladosErrorCode.INVALID_INPUT,
-  //     'Target entity must have content property'
-  //   );
-  // }
+/**
+ * Step 4: Write results (create an output, update the target, or both)
+ *
+ * Returns the IDs to hand off: the KladosJob uses them for the next step in
+ * the workflow (pass, scatter, or gather depending on your rhiza flow definition).
+ */
+const writeStep = step<ProcessedTarget, string[]>(
+  'write',
+  async ({ target, result }, { job }) => {
+    const outputProperties: OutputProperties = {
+      result,
+      source_id: target.id,
+      processed_at: new Date().toISOString(),
+    };
 
-  // =========================================================================
-  // Step 3: Process the entity
-  // =========================================================================
+    const outputIds: string[] = [];
+    const writes = MODE_WRITES[OUTPUT_MODE];
+    let outputId: string | undefined;
 
-  // Replace this with your actual processing logic:
-  // - AI/LLM calls
-  // - Data transformation
-  // - External API calls
-  // - etc.
+    if (writes.output) {
+      // Created in target_collection (where work happens), NOT job_collection
+      // (which is only for klados_log entities); the builder enforces this.
+      // Queue more outputs with outputs.add(); if any write fails, those
+      // already created are rolled back. A result too large for one entity
+      // is split into chunks (see ./chunks), which aren't handed off.
+      const outputs = createOutputBuilder(job);
+      const output = addChunked(outputs, OUTPUT_TYPE, outputProperties);
+      output.derivedFrom(target);
+      const created = await outputs.commit();
 
-  job.log.info('Processing entity...');
+      const chunkIds = new Set(output.chunks.map((chunk) => chunk.id));
+      outputIds.push(...created.filter((id) => !chunkIds.has(id)));
+      outputId = output.id;
+    }
 
-  const result = await processEntity(target.id, target.properties);
+    if (writes.target) {
+      // Merged with expect_tip; re-fetched and retried if the target changes meanwhile
+      await updateEntity(job, target.id, targetEnrichment(outputProperties, outputId));
+      job.log.success('Updated target entity', { targetId: target.id });
 
-  job.log.info('Processing complete', {
-    resultLength: result.length,
-  });
+      // The updated target is handed off like a created output
+      outputIds.push(target.id);
+    }
 
-  // =========================================================================
-  // Step 4: Create output entity (if needed)
-  // =========================================================================
+    return outputIds;
+  },
+  { phase: 'creating_outputs' }
+);
 
-  const outputProperties: OutputProperties = {
-    result,
-    source_id: target.id,
-    processed_at: new Date().toISOString(),
+/**
+ * Build the template pipeline, replacing only the given steps
+ *
+ * @example
+ * templatePipeline({
+ *   process: step('summarize', async (target, { ctx }) => ({
+ *     target,
+ *     result: await summarize(target.properties.content, ctx.signal),
+ *   })),
+ * });
+ */
+export function templatePipeline(
+  overrides: Partial<TemplateSteps> = {}
+): Pipeline<string | undefined, string[]> {
+  const steps: TemplateSteps = {
+    fetch: fetchStep,
+    validate: validateStep,
+    process: processStep,
+    write: writeStep,
+    ...overrides,
   };
 
-  // Create output in target_collection (where work happens)
-  // NOT job_collection (which is only for klados_log entities)
-  const { data: output, error } = await job.client.api.POST('/entities', {
-    body: {
-      type: 'processed_output', // Customize the output type
-      collection: job.request.target_collection,
-      properties: outputProperties as Record<string, unknown>,
-      relationships: [
-        {
-          predicate: 'derived_from',
-          peer: target.id,
-          peer_type: target.type,
-        },
-      ],
-    },
+  return createPipeline<string | undefined>()
+    .then(steps.fetch)
+    .then(steps.validate)
+    .then(steps.process)
+    .then(steps.write);
+}
+
+/** This worker's pipeline: pass overrides for the steps you customize */
+const PIPELINE = templatePipeline();
+
+/** Hooks run around every step, e.g. for timing or auditing */
+const PIPELINE_HOOKS: PipelineHooks = {};
+
+// =============================================================================
+// Entry point
+// =============================================================================
+
+/**
+ * Process a job and return output entity IDs
+ *
+ * Each target goes through PIPELINE:
+ * 1. fetch and 2. validate the target entity
+ * 3. process the entity (AI calls, transformations, etc.)
+ * 4. write output entities and/or update the target (see OUTPUT_MODE),
+ *    returning the output entity IDs
+ *
+ * Every step is logged with its duration, and a failure names its step.
+ * For cardinality: 'many', each of target_entities goes through the pipeline
+ * with bounded concurrency (see BATCH_OPTIONS).
+ *
+ * The KladosJob handles logging, error handling, and workflow handoff.
+ *
+ * @param job - The KladosJob instance (provides client, logger, request info)
+ * @param ctx - Per-job services: cancellation signal, phase reporting, budget
+ * @returns Array of output entity IDs
+ */
+export async function processJob(
+  job: KladosJob,
+  ctx: JobContext = createJobContext()
+): Promise<string[]> {
+  const targetEntities = job.request.target_entities;
+
+  job.log.info('Starting job processing', {
+    target: job.request.target_entity ?? targetEntities,
+    isWorkflow: job.isWorkflow,
   });
 
-  if (error || !output) {
-    throw new Error(`Failed to create output entity: ${JSON.stringify(error)}`);
+  if (targetEntities && targetEntities.length > 0) {
+    ctx.phase('processing');
+
+    // Items run concurrently, so they don't report phases of their own
+    const itemCtx: JobContext = { ...ctx, phase: () => {} };
+    const batch = await processBatch(
+      job,
+      targetEntities,
+      (id) => PIPELINE.run(id, { job, ctx: itemCtx }, PIPELINE_HOOKS),
+      { ...BATCH_OPTIONS, signal: ctx.signal, isFatal: isBudgetExhausted }
+    );
+
+    // Outputs from every successful item are handed off together
+    return batch.outputIds;
   }
 
-  job.log.success('Created output entity', { outputId: output.id });
+  return PIPELINE.run(undefined, { job, ctx }, PIPELINE_HOOKS);
+}
 
-  // =========================================================================
-  // Step 5: Return output IDs for workflow handoff
-  // =========================================================================
+/**
+ * Properties to merge into the target
+ *
+ * A result too large to store inline is replaced by result_output, the ID of
+ * the output holding it (read it with readChunked).
+ *
+ * @param outputId - The output created alongside, if any (OUTPUT_MODE 'both')
+ * @throws KladosError (VALIDATION_ERROR) if the result is too large and there's
+ *         no output to reference
+ */
+function targetEnrichment(
+  properties: OutputProperties,
+  outputId: string | undefined
+): OutputProperties {
+  const { source_id: _, ...enrichment } = properties;
+  const bytes = typeof enrichment.result === 'string' ? byteLength(enrichment.result) : 0;
+  if (bytes <= DEFAULT_MAX_INLINE_BYTES) return enrichment;
+
+  if (!outputId) {
+    throw createKladosError(
+      KladosErrorCode.VALIDATION_ERROR,
+      `Result is ${bytes} bytes, too large to merge into the target; use OUTPUT_MODE 'both'`
+    );
+  }
+  const { result: __, ...rest } = enrichment;
+  return { ...rest, result_output: outputId };
+}
 
-  // The KladosJob will use these IDs for the next step in the workflow
-  // (pass, scatter, or gather depending on your rhiza flow definition)
-  return [output.id];
+/**
+ * Subset of properties, for cache keys
+ */
+function pickProperties(properties: TargetProperties, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map((key) => [key, properties[key]]));
 }
 
 /**
@@ -116,17 +330,30 @@ export async function processJob(job: KladosJob): Promise<string[]> {
  *
  * @param entityId - The entity ID being processed
  * @param properties - The entity properties
+ * @param signal - Aborted if the job is cancelled (pass to fetch, LLM calls, etc.)
  * @returns Processed result
  */
 async function processEntity(
   entityId: string,
-  properties: TargetProperties
+  properties: TargetProperties,
+  signal: AbortSignal
 ): Promise<string> {
   // Example: Simple echo processing
   // Replace this with your actual processing logic
 
-  // Simulate some processing time
-  await new Promise((resolve) => setTimeout(resolve, 100));
+  // Simulate some processing time (stops early if cancelled)
+  signal.throwIfAborted();
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, 100);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
 
   // Return a processed result
   return `Processed entity ${entityId}: ${properties.title || 'untitled'}`;
@@ -0,0 +1,178 @@
+/**
+ * Hosted Kladoi
+ *
+ * One worker can host several related kladoi, each with its own agent config,
+ * processJob and IDs/keys per network, so small kladoi don't each need a
+ * template copy and deployment of their own.
+ *
+ * Which kladoi are hosted comes from kladoi.json (see ./manifest), which the
+ * register script reads too. The first is the primary klados: agent.json,
+ * ./job and the usual AGENT_ID / ARKE_AGENT_KEY variables. Every other klados reads the
+ * same variables with its name inserted, e.g. for 'summarizer':
+ *   AGENT_ID_SUMMARIZER, AGENT_ID_SUMMARIZER_TEST, AGENT_ID_SUMMARIZER_MAIN
+ *   ARKE_AGENT_KEY_SUMMARIZER, ARKE_AGENT_KEY_SUMMARIZER_TEST, ...
+ *   VERIFICATION_TOKEN_SUMMARIZER, ARKE_VERIFY_AGENT_ID_SUMMARIZER
+ *
+ * Arke calls each klados at its registered endpoint, so every klados other
+ * than the primary is registered at <worker>/kladoi/<name>, which serves its
+ * own /process, /process/dry-run and /.well-known/arke-verification. Jobs are
+ * also matched to kladoi by their klados_id. Bindings (JOB_STATE, queues, the
+ * result cache, ...) and ARKE_SIGNING_SECRET are shared by all of them.
+ */
+
+import type { KladosRequest } from '@arke-institute/rhiza';
+import agentConfig from '../agent.json';
+import { processJob } from './job';
+import { MANIFEST, scopedVar } from './manifest';
+import { kladosIdFor } from './provenance';
+import type { AgentConfig, Env, ProcessJob } from './types';
+
+export { KLADOS_PATH_PREFIX, scopedSecret, scopedVar } from './manifest';
+
+/**
+ * A klados this worker hosts
+ */
+export interface KladosDefinition {
+  /** Short name, used in variable names and registration state (e.g. 'summarizer') */
+  name: string;
+  /** Its agent config (the file kladoi.json lists for it) */
+  agent: AgentConfig;
+  processJob: ProcessJob;
+}
+
+/**
+ * Agent config and processJob of each klados in kladoi.json, by name
+ *
+ * To host another, list it in kladoi.json and add it here, e.g.:
+ *   import summarizerAgent from '../agents/summarizer.json';
+ *   import { processJob as summarize } from './summarizer';
+ *   summarizer: { agent: summarizerAgent as AgentConfig, processJob: summarize },
+ * then run the register script to register it.
+ */
+const IMPLEMENTATIONS: Record<string, Omit<KladosDefinition, 'name'>> = {
+  default: { agent: agentConfig as AgentConfig, processJob },
+};
+
+/**
+ * Kladoi hosted by this worker, in kladoi.json order; the first is the primary
+ */
+export const KLADOI: KladosDefinition[] = MANIFEST.map(({ name }) => {
+  const implementation = IMPLEMENTATIONS[name];
+  if (!implementation) {
+    throw new Error(`Klados '${name}' is listed in kladoi.json but has no processJob`);
+  }
+  return { name, ...implementation };
+});
+
+/**
+ * A klados with the environment it runs in
+ */
+export interface HostedKlados extends KladosDefinition {
+  /** env with this klados's IDs, keys and verification in the unscoped variables */
+  env: Env;
+}
+
+/** Variables each hosted klados has its own copy of */
+const SCOPED_VARS: Array<[base: string, suffix: string]> = [
+  ['AGENT_ID', ''],
+  ['AGENT_ID', '_TEST'],
+  ['AGENT_ID', '_MAIN'],
+  ['ARKE_AGENT_KEY', ''],
+  ['ARKE_AGENT_KEY', '_TEST'],
+  ['ARKE_AGENT_KEY', '_MAIN'],
+  ['VERIFICATION_TOKEN', ''],
+  ['ARKE_VERIFY_AGENT_ID', ''],
+];
+
+/**
+ * A klados with its view of env
+ *
+ * The primary klados sees env unchanged, so getKladosConfig, provenance and
+ * the rest work the same for every klados.
+ */
+export function hostKlados(env: Env, klados: KladosDefinition): HostedKlados {
+  if (klados === KLADOI[0]) return { ...klados, env };
+
+  const vars = env as unknown as Record<string, string | undefined>;
+  const scoped: Record<string, string | undefined> = {};
+  for (const [base, suffix] of SCOPED_VARS) {
+    // No fallback to the primary's values, which would route jobs to the wrong klados
+    scoped[`${base}${suffix}`] = vars[scopedVar(klados.name, base, suffix)];
+  }
+
+  return {
+    ...klados,
+    env: {
+      ...env,
+      ...scoped,
+      AGENT_ID: scoped.AGENT_ID ?? '',
+      ARKE_AGENT_KEY: scoped.ARKE_AGENT_KEY ?? '',
+      // Kladoi may compute different results from the same inputs
+      CACHE_SALT: `${klados.name}:${env.CACHE_SALT ?? ''}`,
+    },
+  };
+}
+
+/**
+ * Every hosted klados, primary first
+ */
+export function hostedKladoi(env: Env): HostedKlados[] {
+  return KLADOI.map((klados) => hostKlados(env, klados));
+}
+
+/**
+ * A klados other than the primary, by the name in its path
+ */
+export function findKlados(env: Env, name: string): HostedKlados | undefined {
+  const klados = KLADOI.slice(1).find((k) => k.name === name);
+  return klados && hostKlados(env, klados);
+}
+
+/**
+ * What /.well-known/arke-verification returns for a klados, if it has a
+ * verification token
+ *
+ * Uses ARKE_VERIFY_AGENT_ID during initial verification (before AGENT_ID is
+ * set), then falls back to AGENT_ID.
+ */
+export function verificationFor(
+  klados: HostedKlados
+): { verification_token: string; klados_id: string } | undefined {
+  const { env } = klados;
+  const kladosId = env.ARKE_VERIFY_AGENT_ID || env.AGENT_ID;
+  if (!env.VERIFICATION_TOKEN || !kladosId) return undefined;
+  return { verification_token: env.VERIFICATION_TOKEN, klados_id: kladosId };
+}
+
+/**
+ * The klados a request is for, by its klados_id and network
+ *
+ * Requests without a klados_id go to the primary, as does everything when it
+ * is the only klados hosted.
+ *
+ * @returns undefined if no hosted klados has that ID
+ */
+export function resolveKlados(
+  env: Env,
+  req: Partial<Pick<KladosRequest, 'network'>> & { klados_id?: unknown }
+): HostedKlados | undefined {
+  const id = req.klados_id;
+  if (typeof id !== 'string' || KLADOI.length === 1) return hostKlados(env, KLADOI[0]);
+
+  const network = req.network ?? 'test';
+  return hostedKladoi(env).find((klados) => kladosIdFor(klados.env, network) === id);
+}
+
+/**
+ * Summary of a hosted klados for /health
+ */
+export function describeKlados(klados: HostedKlados) {
+  return {
+    name: klados.name,
+    label: klados.agent.label,
+    klados_ids: {
+      test: kladosIdFor(klados.env, 'test'),
+      main: kladosIdFor(klados.env, 'main'),
+    },
+  };
+}
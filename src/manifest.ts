@@ -0,0 +1,48 @@
+/**
+ * Klados Manifest
+ *
+ * kladoi.json lists the kladoi this worker hosts, primary first, with the
+ * path of each one's agent config. The worker (./kladoi) and
+ * scripts/register.ts both read it, so they always agree on what is hosted.
+ *
+ * This module also holds the naming rules both of them need. It imports
+ * nothing else from src/, so the register script doesn't load the worker.
+ */
+
+import manifest from '../kladoi.json';
+
+/**
+ * A klados listed in kladoi.json
+ */
+export interface ManifestEntry {
+  /** Short name, used in variable names and registration state (e.g. 'summarizer') */
+  name: string;
+  /** Path of its agent config, relative to the project root */
+  agent: string;
+}
+
+/** Hosted kladoi, primary first */
+export const MANIFEST: ManifestEntry[] = manifest;
+
+/** Path under which kladoi other than the primary are served */
+export const KLADOS_PATH_PREFIX = '/kladoi';
+
+/** Secrets registration stores for each klados, with or without a network suffix */
+const SCOPED_SECRETS = ['ARKE_AGENT_KEY', 'VERIFICATION_TOKEN', 'ARKE_VERIFY_AGENT_ID'];
+
+/**
+ * Name of a klados's copy of a variable, e.g. AGENT_ID_SUMMARIZER_TEST
+ */
+export function scopedVar(name: string, base: string, suffix = ''): string {
+  return `${base}_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}${suffix}`;
+}
+
+/**
+ * Name a klados other than the primary stores a registration secret under,
+ * e.g. VERIFICATION_TOKEN → VERIFICATION_TOKEN_SUMMARIZER and
+ * ARKE_AGENT_KEY_TEST → ARKE_AGENT_KEY_SUMMARIZER_TEST (see scripts/register.ts)
+ */
+export function scopedSecret(name: string, secret: string): string {
+  const base = SCOPED_SECRETS.find((prefix) => secret.startsWith(prefix));
+  return base ? scopedVar(name, base, secret.slice(base.length)) : secret;
+}
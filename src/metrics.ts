@@ -0,0 +1,352 @@
+/**
+ * Prometheus Metrics
+ *
+ * Collects job and Arke API metrics and exposes them on GET /metrics in the
+ * Prometheus text format.
+ *
+ * Each job records into its own registry, which is flushed once the job
+ * finishes. With the METRICS Durable Object binding, flushes are merged into a
+ * single MetricsAggregator so /metrics reports totals across all isolates;
+ * without it, metrics are aggregated in memory for the current isolate.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { entityFields, interceptClient } from './client';
+import type { Env } from './types';
+
+type Labels = Record<string, string>;
+
+interface MetricDef {
+  type: 'counter' | 'histogram';
+  help: string;
+  /** Histogram bucket upper bounds, in seconds */
+  buckets?: number[];
+}
+
+const JOB_DURATION_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+const API_DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Every metric this worker exposes
+ */
+export const METRICS = {
+  klados_jobs_accepted_total: { type: 'counter', help: 'Jobs accepted by /process' },
+  klados_jobs_succeeded_total: { type: 'counter', help: 'Jobs that completed successfully' },
+  klados_jobs_failed_total: { type: 'counter', help: 'Jobs that failed or were cancelled' },
+  klados_job_errors_total: { type: 'counter', help: 'Job failures by error code' },
+  klados_job_duration_seconds: {
+    type: 'histogram',
+    help: 'Job duration from start of processing to finalization',
+    buckets: JOB_DURATION_BUCKETS,
+  },
+  klados_api_requests_total: { type: 'counter', help: 'Arke API calls made through job.client' },
+  klados_api_request_duration_seconds: {
+    type: 'histogram',
+    help: 'Arke API call latency',
+    buckets: API_DURATION_BUCKETS,
+  },
+  klados_outputs_created_total: { type: 'counter', help: 'Output entities created' },
+  klados_sweep_targets_total: { type: 'counter', help: 'Targets the scheduled sweep invoked' },
+  klados_sweep_errors_total: { type: 'counter', help: 'Scheduled sweeps that failed to scan' },
+  klados_notifications_failed_total: {
+    type: 'counter',
+    help: 'Job events that could not be delivered',
+  },
+} satisfies Record<string, MetricDef>;
+
+export type MetricName = keyof typeof METRICS;
+
+interface CounterSample {
+  name: MetricName;
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSample {
+  name: MetricName;
+  labels: Labels;
+  /** Observations per bucket (not cumulative), plus one overflow bucket */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Serializable registry contents, used to ship metrics to the aggregator
+ */
+export interface MetricsSnapshot {
+  counters: CounterSample[];
+  histograms: HistogramSample[];
+}
+
+function seriesKey(name: string, labels: Labels): string {
+  return `${name}${JSON.stringify(Object.entries(labels).sort())}`;
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  const escaped = entries.map(
+    ([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+/**
+ * In-memory counters and histograms
+ */
+export class MetricsRegistry {
+  private counters = new Map<string, CounterSample>();
+  private histograms = new Map<string, HistogramSample>();
+
+  inc(name: MetricName, labels: Labels = {}, value = 1): void {
+    const key = seriesKey(name, labels);
+    const sample = this.counters.get(key) ?? { name, labels, value: 0 };
+    sample.value += value;
+    this.counters.set(key, sample);
+  }
+
+  observe(name: MetricName, labels: Labels, value: number): void {
+    const buckets = (METRICS[name] as MetricDef).buckets ?? [];
+    const key = seriesKey(name, labels);
+    const sample = this.histograms.get(key) ?? {
+      name,
+      labels,
+      counts: new Array(buckets.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    };
+
+    const index = buckets.findIndex((bound) => value <= bound);
+    sample.counts[index === -1 ? buckets.length : index] += 1;
+    sample.sum += value;
+    sample.count += 1;
+    this.histograms.set(key, sample);
+  }
+
+  merge(snapshot: MetricsSnapshot): void {
+    for (const counter of snapshot.counters) {
+      this.inc(counter.name, counter.labels, counter.value);
+    }
+    for (const incoming of snapshot.histograms) {
+      const key = seriesKey(incoming.name, incoming.labels);
+      const existing = this.histograms.get(key);
+      if (!existing) {
+        this.histograms.set(key, structuredClone(incoming));
+        continue;
+      }
+      incoming.counts.forEach((n, i) => (existing.counts[i] += n));
+      existing.sum += incoming.sum;
+      existing.count += incoming.count;
+    }
+  }
+
+  snapshot(): MetricsSnapshot {
+    return {
+      counters: [...this.counters.values()],
+      histograms: [...this.histograms.values()],
+    };
+  }
+
+  isEmpty(): boolean {
+    return this.counters.size === 0 && this.histograms.size === 0;
+  }
+
+  clear(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  /**
+   * Render in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, def] of Object.entries(METRICS) as [MetricName, MetricDef][]) {
+      lines.push(`# HELP ${name} ${def.help}`, `# TYPE ${name} ${def.type}`);
+
+      if (def.type === 'counter') {
+        for (const sample of this.counters.values()) {
+          if (sample.name === name) {
+            lines.push(`${name}${formatLabels(sample.labels)} ${sample.value}`);
+          }
+        }
+        continue;
+      }
+
+      const buckets = def.buckets ?? [];
+      for (const sample of this.histograms.values()) {
+        if (sample.name !== name) continue;
+        let cumulative = 0;
+        buckets.forEach((bound, i) => {
+          cumulative += sample.counts[i];
+          lines.push(`${name}_bucket${formatLabels(sample.labels, { le: String(bound) })} ${cumulative}`);
+        });
+        lines.push(`${name}_bucket${formatLabels(sample.labels, { le: '+Inf' })} ${sample.count}`);
+        lines.push(`${name}_sum${formatLabels(sample.labels)} ${sample.sum}`);
+        lines.push(`${name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/** Fallback aggregate for this isolate when METRICS isn't bound */
+const local = new MetricsRegistry();
+
+/**
+ * Clear this isolate's aggregate (for tests)
+ */
+export function resetLocalMetrics(): void {
+  local.clear();
+}
+
+function aggregator(env: Env): DurableObjectStub | undefined {
+  return env.METRICS?.get(env.METRICS.idFromName('global'));
+}
+
+/**
+ * Merge a registry into the aggregate
+ *
+ * Never throws: metrics must not fail a job.
+ */
+export async function flushMetrics(env: Env, registry: MetricsRegistry): Promise<void> {
+  if (registry.isEmpty()) return;
+
+  const stub = aggregator(env);
+  if (!stub) {
+    local.merge(registry.snapshot());
+    return;
+  }
+
+  try {
+    await stub.fetch('https://metrics/record', {
+      method: 'POST',
+      body: JSON.stringify(registry.snapshot()),
+    });
+  } catch {
+    // Dropped: the next flush carries on from a fresh registry
+  }
+}
+
+/**
+ * Count a job accepted by /process
+ */
+export function countAccepted(env: Env, network: string): Promise<void> {
+  const registry = new MetricsRegistry();
+  registry.inc('klados_jobs_accepted_total', { network });
+  return flushMetrics(env, registry);
+}
+
+/**
+ * Render the aggregate in Prometheus text format
+ */
+export async function renderMetrics(env: Env): Promise<string> {
+  const stub = aggregator(env);
+  if (!stub) return local.render();
+
+  const res = await stub.fetch('https://metrics/metrics');
+  return res.text();
+}
+
+/**
+ * Durable Object that merges metrics from every isolate
+ *
+ * The aggregate is persisted, so totals survive the object being evicted.
+ */
+export class MetricsAggregator implements DurableObject {
+  private registry?: MetricsRegistry;
+
+  constructor(private state: DurableObjectState) {}
+
+  private async load(): Promise<MetricsRegistry> {
+    if (!this.registry) {
+      this.registry = new MetricsRegistry();
+      const saved = await this.state.storage.get<MetricsSnapshot>('snapshot');
+      if (saved) this.registry.merge(saved);
+    }
+    return this.registry;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const registry = await this.load();
+    const { pathname } = new URL(request.url);
+
+    if (request.method === 'POST' && pathname === '/record') {
+      registry.merge(await request.json<MetricsSnapshot>());
+      await this.state.storage.put('snapshot', registry.snapshot());
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'GET' && pathname === '/metrics') {
+      return new Response(registry.render(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4' },
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+}
+
+// =============================================================================
+// Instrumentation
+// =============================================================================
+
+/**
+ * Record a finished job's outcome, error code and duration
+ */
+export function recordOutcome(
+  registry: MetricsRegistry,
+  network: string,
+  error: unknown,
+  durationMs: number
+): void {
+  const outcome = error === undefined ? 'succeeded' : 'failed';
+  registry.inc(`klados_jobs_${outcome}_total`, { network });
+  registry.observe('klados_job_duration_seconds', { network, outcome }, durationMs / 1000);
+
+  if (error !== undefined) {
+    const code = (error as { code?: string } | null)?.code ?? 'UNKNOWN';
+    registry.inc('klados_job_errors_total', { network, code });
+  }
+}
+
+/**
+ * Record latency and status of every job.client call, and count created outputs
+ */
+export function instrumentClient(job: KladosJob, registry: MetricsRegistry): void {
+  const network: string = job.request.network ?? 'test';
+  const targetCollection: string = job.request.target_collection;
+
+  interceptClient(job, async (call, next) => {
+    const started = Date.now();
+    let status = 'error';
+
+    try {
+      const result = await next(call);
+      status = result.response ? String(result.response.status) : result.error ? 'error' : 'ok';
+
+      // Outputs go to target_collection; klados_log entities go to job_collection
+      if (
+        call.method === 'POST' &&
+        call.path === '/entities' &&
+        entityFields(result.data).id &&
+        entityFields(call.init.body).collection === targetCollection
+      ) {
+        registry.inc('klados_outputs_created_total', { network });
+      }
+
+      return result;
+    } finally {
+      const labels = { method: call.method, path: call.path };
+      registry.inc('klados_api_requests_total', { ...labels, status });
+      registry.observe('klados_api_request_duration_seconds', labels, (Date.now() - started) / 1000);
+    }
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * Job Notifications
+ *
+ * Tells other systems when a job finishes, without them polling klados_log.
+ * Once job.run returns, runJob sends one event per job (see ./execute) to
+ * each configured channel:
+ * - Webhook (NOTIFY_WEBHOOK_URL): POSTs the event as JSON. With
+ *   NOTIFY_WEBHOOK_SECRET set it is signed like Arke signs /process requests
+ *   (see ./auth), in X-Klados-Timestamp and X-Klados-Signature
+ * - Queue (NOTIFY_QUEUE binding): sends the event to a Cloudflare Queue
+ *
+ * NOTIFY_EVENTS limits which event types are sent (default: all).
+ *
+ * Webhook requests time out after 10s. Failed deliveries are retried with
+ * backoff, up to NOTIFY_MAX_ATTEMPTS. Notifications never fail or hold up
+ * the job: it has already been finalized when they are sent, runJob hands
+ * them to waitUntil when it can, and one that can't be delivered is only
+ * counted in klados_notifications_failed_total (see ./metrics).
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { computeSignature } from './auth';
+import { backoffDelayMs, sleep } from './retry';
+import { isCancellation } from './cancellation';
+import { describeError } from './status';
+import { kladosIdFor } from './provenance';
+import { MetricsRegistry, flushMetrics } from './metrics';
+import type { RunOutcome } from './execute';
+import type { Env } from './types';
+
+export const EVENT_HEADER = 'X-Klados-Event';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Klados-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Klados-Signature';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 5_000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Webhook responses worth retrying */
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export type JobEventType = 'job.completed' | 'job.failed' | 'job.cancelled';
+
+/**
+ * What a notification says about a finished job
+ */
+export interface JobEvent {
+  type: JobEventType;
+  job_id: string;
+  klados_id: string;
+  network: string;
+  target_entity?: string;
+  target_entities?: string[];
+  target_collection: string;
+  job_collection: string;
+  status: 'done' | 'failed' | 'cancelled';
+  /** Output entity IDs (empty unless the job completed) */
+  output_ids: string[];
+  error?: { code?: string; message: string };
+  duration_ms: number;
+  /** When the event was created (ISO 8601) */
+  timestamp: string;
+}
+
+export interface NotifyOptions {
+  /** Backoff base delay (default: 500ms) */
+  baseDelayMs?: number;
+  /** Webhook request timeout (default: 10s) */
+  timeoutMs?: number;
+  /** fetch used for webhooks */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Build the event for a finished job
+ */
+export function jobEvent(
+  job: KladosJob,
+  env: Env,
+  outcome: RunOutcome,
+  durationMs: number
+): JobEvent {
+  const { request } = job;
+  const network = request.network ?? 'test';
+  const failed = outcome.error !== undefined;
+  const cancelled = failed && isCancellation(outcome.error);
+  const status = cancelled ? 'cancelled' : failed ? 'failed' : 'done';
+
+  return {
+    type: cancelled ? 'job.cancelled' : failed ? 'job.failed' : 'job.completed',
+    job_id: request.job_id,
+    klados_id: kladosIdFor(env, network),
+    network,
+    ...(request.target_entity && { target_entity: request.target_entity }),
+    ...(request.target_entities && { target_entities: request.target_entities }),
+    target_collection: request.target_collection,
+    job_collection: request.job_collection,
+    status,
+    output_ids: outcome.outputIds ?? [],
+    ...(failed && { error: describeError(outcome.error) }),
+    duration_ms: durationMs,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * A delivery failure; permanent ones aren't retried
+ */
+function deliveryError(message: string, permanent = false) {
+  return Object.assign(new Error(message), { permanent });
+}
+
+async function postWebhook(
+  url: string,
+  secret: string | undefined,
+  event: JobEvent,
+  fetcher: typeof fetch,
+  timeoutMs: number
+): Promise<void> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [EVENT_HEADER]: event.type,
+  };
+  if (secret) {
+    headers[WEBHOOK_TIMESTAMP_HEADER] = String(timestamp);
+    const { pathname, search } = new URL(url);
+    headers[WEBHOOK_SIGNATURE_HEADER] = await computeSignature(
+      secret,
+      { method: 'POST', path: pathname + search, body },
+      timestamp
+    );
+  }
+
+  const res = await fetcher(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) {
+    throw deliveryError(
+      `Webhook responded ${res.status}`,
+      !TRANSIENT_STATUSES.includes(res.status)
+    );
+  }
+}
+
+/**
+ * Attempt a delivery until it succeeds, fails permanently or runs out of attempts
+ *
+ * @returns Whether it was delivered
+ */
+async function deliver(
+  send: () => Promise<unknown>,
+  maxAttempts: number,
+  baseDelayMs: number
+): Promise<boolean> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await send();
+      return true;
+    } catch (err) {
+      const permanent = (err as { permanent?: boolean } | null)?.permanent === true;
+      if (permanent || attempt >= maxAttempts) return false;
+      await sleep(backoffDelayMs(attempt, baseDelayMs, MAX_DELAY_MS));
+    }
+  }
+}
+
+/**
+ * Event types to send, from NOTIFY_EVENTS
+ */
+function enabledEvents(env: Env): string[] | undefined {
+  const types = (env.NOTIFY_EVENTS ?? '')
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean);
+  return types.length > 0 ? types : undefined;
+}
+
+/**
+ * Send an event to every configured channel
+ *
+ * Never throws; undeliverable events are counted in metrics.
+ *
+ * @returns Channels the event was delivered to
+ */
+export async function notifyJob(
+  env: Env,
+  event: JobEvent,
+  options: NotifyOptions = {}
+): Promise<string[]> {
+  const enabled = enabledEvents(env);
+  if (enabled && !enabled.includes(event.type)) return [];
+
+  const maxAttempts = Number(env.NOTIFY_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const channels: Array<[string, () => Promise<unknown>]> = [];
+
+  const url = env.NOTIFY_WEBHOOK_URL;
+  if (url) {
+    const fetcher = options.fetch ?? fetch;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    channels.push([
+      'webhook',
+      () => postWebhook(url, env.NOTIFY_WEBHOOK_SECRET, event, fetcher, timeoutMs),
+    ]);
+  }
+  const queue = env.NOTIFY_QUEUE;
+  if (queue) {
+    channels.push(['queue', () => queue.send(event)]);
+  }
+
+  const delivered = await Promise.all(
+    channels.map(([, send]) => deliver(send, maxAttempts, baseDelayMs))
+  );
+
+  const failed = channels.filter((_, i) => !delivered[i]).map(([channel]) => channel);
+  if (failed.length > 0) {
+    const metrics = new MetricsRegistry();
+    for (const channel of failed) {
+      metrics.inc('klados_notifications_failed_total', { channel, type: event.type });
+    }
+    await flushMetrics(env, metrics);
+  }
+
+  return channels.filter((_, i) => delivered[i]).map(([channel]) => channel);
+}
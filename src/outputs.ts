@@ -0,0 +1,229 @@
+/**
+ * Output Builder
+ *
+ * Queues the output entities a job creates, with their relationships, and
+ * creates them together on commit():
+ * - Outputs are created in the order they were added. Relationships to an
+ *   output added later are added once it exists (one more write per output
+ *   that has them)
+ * - If any write fails, the outputs already created are deleted (or
+ *   tombstoned, if deletion fails) so nothing is left orphaned in
+ *   target_collection. Rollback calls are ungated, so they still run when
+ *   the job was cancelled or ran out of budget mid-commit
+ * - Types are checked against agent.json produces.types, and writing into
+ *   job_collection (reserved for klados_log entities) is rejected
+ *
+ * Usage:
+ *   const outputs = createOutputBuilder(job);
+ *   const summary = outputs.add('summary', { result }).derivedFrom(target);
+ *   outputs.add('chunk', { result: part }).partOf(summary);
+ *   const outputIds = await outputs.commit();
+ *
+ * Large results can be split across chunk outputs with addChunked (see ./chunks).
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { assertProduces, contract } from './validation';
+import { ungated } from './client';
+import { apiError } from './retry';
+import type { AgentContract, OutputProperties } from './types';
+
+/**
+ * Something an output can relate to: an entity ID, a fetched entity, or an
+ * output added earlier to the same builder
+ */
+export type Peer = string | { id: string; type?: string } | OutputHandle;
+
+/**
+ * An output queued for creation
+ */
+export interface OutputHandle {
+  readonly type: string;
+  /** Set once commit() has created the entity */
+  readonly id: string | undefined;
+  derivedFrom(peer: Peer): OutputHandle;
+  partOf(peer: Peer): OutputHandle;
+  relate(predicate: string, peer: Peer): OutputHandle;
+}
+
+export interface OutputBuilder<T extends OutputProperties = OutputProperties> {
+  /**
+   * Queue an output entity
+   *
+   * @param options.collection - Defaults to target_collection
+   */
+  add(type: string, properties: T, options?: { collection?: string }): OutputHandle;
+  /** Outputs queued so far, in creation order */
+  readonly pending: readonly OutputHandle[];
+  /** Create every queued output, rolling back on failure; returns their IDs */
+  commit(): Promise<string[]>;
+}
+
+interface Relationship {
+  predicate: string;
+  peer: Peer;
+}
+
+interface QueuedOutput {
+  handle: OutputHandle;
+  collection: string;
+  properties: OutputProperties;
+  relationships: Relationship[];
+  id?: string;
+}
+
+/**
+ * Create a builder for a job's outputs
+ *
+ * @param agent - Contract output types are checked against (default: agent.json)
+ */
+export function createOutputBuilder<T extends OutputProperties = OutputProperties>(
+  job: KladosJob,
+  agent: AgentContract = contract
+): OutputBuilder<T> {
+  const queued: QueuedOutput[] = [];
+  const byHandle = new Map<OutputHandle, QueuedOutput>();
+  let committed = false;
+
+  const resolvePeer = (peer: Peer): { peer: string; peer_type?: string } => {
+    if (typeof peer === 'string') return { peer };
+    if (!peer.id) {
+      throw new Error(`Output ${peer.type} must be created before outputs relating to it`);
+    }
+    return { peer: peer.id, peer_type: peer.type };
+  };
+
+  const add = (type: string, properties: T, options: { collection?: string } = {}) => {
+    if (committed) throw new Error('Outputs have already been committed');
+    assertProduces(type, agent);
+
+    const collection = options.collection ?? job.request.target_collection;
+    if (collection === job.request.job_collection) {
+      throw createKladosError(
+        KladosErrorCode.VALIDATION_ERROR,
+        `Output ${type} targets job_collection, which is reserved for klados_log entities`
+      );
+    }
+
+    const relate = (predicate: string, peer: Peer) => {
+      if (peer === handle) throw new Error(`Output ${type} can't relate to itself`);
+      output.relationships.push({ predicate, peer });
+      return handle;
+    };
+
+    const handle: OutputHandle = {
+      type,
+      get id() {
+        return output.id;
+      },
+      derivedFrom: (peer) => relate('derived_from', peer),
+      partOf: (peer) => relate('part_of', peer),
+      relate,
+    };
+
+    const output: QueuedOutput = { handle, collection, properties, relationships: [] };
+    queued.push(output);
+    byHandle.set(handle, output);
+    return handle;
+  };
+
+  const rollback = async (created: QueuedOutput[]) => {
+    for (const output of [...created].reverse()) {
+      const id = output.id!;
+      const deleted = await job.client.api
+        .DELETE('/entities/{id}', ungated({ params: { path: { id } } }))
+        .catch((err: unknown) => ({ error: err }));
+      if (!deleted.error) {
+        job.log.info('Rolled back output entity', { outputId: id });
+        continue;
+      }
+
+      // Deletion may not be permitted; mark the entity so it can be cleaned up later
+      const tombstoned = await job.client.api
+        .PUT(
+          '/entities/{id}',
+          ungated({
+            params: { path: { id } },
+            body: { properties: { tombstone: { job_id: job.request.job_id, reason: 'rollback' } } },
+          })
+        )
+        .catch((err: unknown) => ({ error: err }));
+      if (tombstoned.error) {
+        job.log.error('Failed to roll back output entity', { outputId: id });
+      } else {
+        job.log.warning('Tombstoned output entity', { outputId: id });
+      }
+    }
+  };
+
+  const commit = async () => {
+    if (committed) throw new Error('Outputs have already been committed');
+    committed = true;
+
+    const created: QueuedOutput[] = [];
+    // Relationships to outputs not created yet, added once they are
+    const deferred = new Map<QueuedOutput, { cid?: string; relationships: Relationship[] }>();
+    const isPending = ({ peer }: Relationship) => {
+      const peerOutput = byHandle.get(peer as OutputHandle);
+      return peerOutput !== undefined && peerOutput.id === undefined;
+    };
+
+    try {
+      for (const output of queued) {
+        const later = output.relationships.filter(isPending);
+        const { data, error, response } = await job.client.api.POST('/entities', {
+          body: {
+            type: output.handle.type,
+            collection: output.collection,
+            properties: output.properties as Record<string, unknown>,
+            relationships: output.relationships
+              .filter((rel) => !later.includes(rel))
+              .map(({ predicate, peer }) => ({ predicate, ...resolvePeer(peer) })),
+          },
+        });
+
+        if (error || !data) {
+          throw apiError('Failed to create output entity', { error, response }, 'POST');
+        }
+
+        output.id = data.id;
+        created.push(output);
+        if (later.length > 0) deferred.set(output, { cid: data.cid, relationships: later });
+        job.log.success('Created output entity', { outputId: data.id, type: output.handle.type });
+      }
+
+      for (const [output, { cid, relationships }] of deferred) {
+        const id = output.id!;
+        const result = await job.client.api.PUT('/entities/{id}', {
+          params: { path: { id } },
+          body: {
+            ...(cid && { expect_tip: cid }),
+            relationships_add: relationships.map(({ predicate, peer }) => ({
+              predicate,
+              ...resolvePeer(peer),
+            })),
+          },
+        });
+        if (result.error || !result.data) {
+          throw apiError(`Failed to relate output entity ${id}`, result);
+        }
+      }
+    } catch (err) {
+      if (created.length > 0) {
+        job.log.warning('Rolling back outputs after a failed write', { created: created.length });
+        await rollback(created);
+      }
+      throw err;
+    }
+
+    return created.map((output) => output.id!);
+  };
+
+  return {
+    add,
+    get pending() {
+      return queued.map((output) => output.handle);
+    },
+    commit,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Step Pipeline
+ *
+ * Runs processJob as a sequence of named, typed steps, each taking the
+ * previous step's output. For every step the pipeline:
+ * - Reports the step's job phase, if it declares one
+ * - Logs when it starts and finishes, with its duration
+ * - Runs before/after hooks, both the step's own and the pipeline's
+ * - Wraps errors so the job fails with the name of the step that failed,
+ *   keeping the original error code
+ *
+ * Usage:
+ *   const pipeline = createPipeline<string>()
+ *     .then(step('load', (id, { job }) => fetchEntity(job, id)))
+ *     .then(step('summarize', (entity) => summarize(entity), { phase: 'processing' }));
+ *   const summary = await pipeline.run(id, { job, ctx });
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import type { JobContext, JobPhase } from './types';
+
+const KLADOS_ERROR_CODES: KladosErrorCode[] = Object.values(KladosErrorCode);
+
+/**
+ * What every step receives besides its input
+ */
+export interface StepContext {
+  job: KladosJob;
+  ctx: JobContext;
+}
+
+/**
+ * A named unit of work
+ */
+export interface Step<In, Out> {
+  name: string;
+  /** Phase reported to job status when the step starts */
+  phase?: JobPhase;
+  run(input: In, sc: StepContext): Out | Promise<Out>;
+  before?(input: In, sc: StepContext): void | Promise<void>;
+  after?(output: Out, sc: StepContext): void | Promise<void>;
+}
+
+/**
+ * Hooks run around every step of a pipeline
+ */
+export interface PipelineHooks {
+  before?(step: string, input: unknown, sc: StepContext): void | Promise<void>;
+  after?(step: string, output: unknown, durationMs: number, sc: StepContext): void | Promise<void>;
+  /** Called with the wrapped error before it is rethrown */
+  error?(step: string, error: unknown, sc: StepContext): void | Promise<void>;
+}
+
+export interface Pipeline<In, Out> {
+  /** Step names, in order */
+  readonly steps: readonly string[];
+  /** A new pipeline with a step appended */
+  then<Next>(step: Step<Out, Next>): Pipeline<In, Next>;
+  run(input: In, sc: StepContext, hooks?: PipelineHooks): Promise<Out>;
+}
+
+/**
+ * Define a step
+ */
+export function step<In, Out>(
+  name: string,
+  run: Step<In, Out>['run'],
+  options: Omit<Step<In, Out>, 'name' | 'run'> = {}
+): Step<In, Out> {
+  return { name, run, ...options };
+}
+
+/**
+ * Wrap an error with the step it came from
+ *
+ * The code, reason, retryable flag and details are kept, so cancellation,
+ * budget and retry handling still recognize it.
+ */
+function stepError(name: string, err: unknown) {
+  const source = (err ?? {}) as {
+    code?: unknown;
+    reason?: string;
+    retryable?: boolean;
+    details?: Record<string, unknown>;
+    step?: string;
+  };
+  // Already wrapped by a nested pipeline
+  if (source.step !== undefined) return err;
+
+  const code = KLADOS_ERROR_CODES.find((known) => known === source.code);
+  const message = err instanceof Error ? err.message : String(err);
+  const wrapped = createKladosError(
+    code ?? KladosErrorCode.PROCESSING_ERROR,
+    `Step ${name} failed: ${message}`,
+    { ...source.details, step: name }
+  );
+
+  return Object.assign(wrapped, {
+    step: name,
+    cause: err,
+    ...(source.reason !== undefined && { reason: source.reason }),
+    ...(source.retryable !== undefined && { retryable: source.retryable }),
+  });
+}
+
+/**
+ * Create an empty pipeline; add steps with then()
+ */
+export function createPipeline<In>(): Pipeline<In, In> {
+  return build<In, In>([]);
+}
+
+function build<In, Out>(steps: Step<unknown, unknown>[]): Pipeline<In, Out> {
+  return {
+    steps: steps.map((s) => s.name),
+
+    then<Next>(next: Step<Out, Next>) {
+      return build<In, Next>([...steps, next]);
+    },
+
+    async run(input, sc, hooks = {}) {
+      let value: unknown = input;
+
+      for (const current of steps) {
+        const started = Date.now();
+        sc.ctx.signal.throwIfAborted();
+        if (current.phase) sc.ctx.phase(current.phase);
+        sc.job.log.info(`Step ${current.name} started`);
+
+        try {
+          await hooks.before?.(current.name, value, sc);
+          await current.before?.(value, sc);
+          value = await current.run(value, sc);
+          await current.after?.(value, sc);
+
+          const durationMs = Date.now() - started;
+          await hooks.after?.(current.name, value, durationMs, sc);
+          sc.job.log.info(`Step ${current.name} finished`, { durationMs });
+        } catch (err) {
+          const error = stepError(current.name, err);
+          sc.job.log.error(`Step ${current.name} failed`, {
+            durationMs: Date.now() - started,
+            error: err instanceof Error ? err.message : String(err),
+          });
+          await hooks.error?.(current.name, error, sc);
+          throw error;
+        }
+      }
+
+      return value as Out;
+    },
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Output Provenance
+ *
+ * Stamps every entity a job creates (outside job_collection) with where it
+ * came from, so outputs can be audited without each processJob recording it:
+ * - A `provenance` property: klados ID, AGENT_VERSION, network, job ID and a
+ *   SHA-256 hash of the input entities' properties
+ * - A `generated_by` relationship to the job's klados_log entity
+ *
+ * Inputs are the output's derived_from peers, or the job's target_entity if
+ * it has none. The log is KladosJob's own (job.logId), written when job.run
+ * starts. Queue mode processes before job.run (see ./execute), so entities
+ * created before the log existed are linked by linkProvenance once it does.
+ *
+ * findOutputs queries a collection by provenance, e.g. every output produced
+ * by a given worker version, paging through the whole collection listing.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { entityFields, interceptClient, type ApiResult } from './client';
+import { apiError } from './retry';
+import type { Env } from './types';
+
+/** Property holding provenance on output entities */
+export const PROVENANCE_PROPERTY = 'provenance';
+
+/** Relationship from an output to the klados_log entity of the job that created it */
+export const GENERATED_BY = 'generated_by';
+
+/** Entities listed per page */
+const PAGE_SIZE = 100;
+
+/** Entities each job created before its klados_log existed, with their latest CID */
+const UNLINKED = new WeakMap<KladosJob, Map<string, string | undefined>>();
+
+/**
+ * Provenance recorded on each output
+ */
+export interface Provenance {
+  klados_id: string;
+  agent_version: string;
+  network: string;
+  job_id: string;
+  /** SHA-256 of the input entities' properties, if the output has inputs */
+  input_hash?: string;
+}
+
+/**
+ * Klados ID for a network, matching getKladosConfig's per-network overrides
+ */
+export function kladosIdFor(env: Env, network: string): string {
+  const override = network === 'main' ? env.AGENT_ID_MAIN : env.AGENT_ID_TEST;
+  return override || env.AGENT_ID;
+}
+
+/**
+ * JSON with object keys sorted, so equal properties always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 of a JSON value, independent of object key order
+ */
+export async function stableHash(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(stableStringify(value))
+  );
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash entity properties, keyed by entity ID
+ */
+export function hashInputs(inputs: Record<string, unknown>): Promise<string> {
+  return stableHash(inputs);
+}
+
+function generatedBy(log: string) {
+  return { predicate: GENERATED_BY, peer: log, peer_type: 'klados_log' };
+}
+
+interface ListedEntity {
+  id: string;
+  type: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Page through a collection's entities until `visit` returns true
+ */
+async function scanCollection(
+  job: KladosJob,
+  collectionId: string,
+  type: string | undefined,
+  visit: (entity: ListedEntity) => boolean | void
+): Promise<void> {
+  let cursor: string | undefined;
+  do {
+    const { data, error, response } = await job.client.api.GET('/collections/{id}/entities', {
+      params: {
+        path: { id: collectionId },
+        query: { ...(type && { type }), limit: PAGE_SIZE, ...(cursor && { cursor }) },
+      },
+    });
+    if (error || !data) {
+      throw apiError(`Failed to list collection ${collectionId}`, { error, response });
+    }
+
+    const entities: ListedEntity[] = data.entities ?? [];
+    if (entities.some((entity) => visit(entity) === true)) return;
+    cursor = data.cursor ?? undefined;
+  } while (cursor);
+}
+
+/**
+ * Add provenance to every entity created through job.client while processJob runs
+ *
+ * @returns Function that stops stamping, before KladosJob finalizes its log
+ */
+export function trackProvenance(job: KladosJob, env: Env): () => void {
+  const network: string = job.request.network ?? 'test';
+  const base = {
+    klados_id: kladosIdFor(env, network),
+    agent_version: env.AGENT_VERSION,
+    network,
+    job_id: job.request.job_id as string,
+  };
+
+  // Properties of entities read during the job, reused as inputs
+  const seen = new Map<string, Promise<unknown>>();
+  const unlinked = new Map<string, string | undefined>();
+  UNLINKED.set(job, unlinked);
+  let active = true;
+
+  const propertiesOf = (id: string) => {
+    if (!seen.has(id)) {
+      seen.set(
+        id,
+        job.client.api
+          .GET('/entities/{id}', { params: { path: { id } } })
+          .then((result: ApiResult) => entityFields(result.data).properties)
+      );
+    }
+    return seen.get(id)!;
+  };
+
+  interceptClient(job, async (call, next) => {
+    if (!active) return next(call);
+
+    if (call.method === 'GET' && call.path === '/entities/{id}') {
+      const result = await next(call);
+      const id = call.init.params?.path?.id;
+      if (id && result.data) seen.set(id, Promise.resolve(entityFields(result.data).properties));
+      return result;
+    }
+
+    // Keep the tip of entities still to be linked, so linking can expect it,
+    // and forget those that are rolled back
+    const unlinkedId = call.init.params?.path?.id;
+    if (call.path === '/entities/{id}' && unlinkedId && unlinked.has(unlinkedId)) {
+      const result = await next(call);
+      if (call.method === 'PUT' && result.data) {
+        unlinked.set(unlinkedId, entityFields(result.data).cid);
+      }
+      if (call.method === 'DELETE' && !result.error) unlinked.delete(unlinkedId);
+      return result;
+    }
+
+    const body = call.init.body === undefined ? undefined : entityFields(call.init.body);
+    if (
+      call.method !== 'POST' ||
+      call.path !== '/entities' ||
+      !body ||
+      body.collection === job.request.job_collection
+    ) {
+      return next(call);
+    }
+
+    const relationships = body.relationships ?? [];
+    const derivedFrom = relationships
+      .filter((rel) => rel.predicate === 'derived_from')
+      .map((rel) => rel.peer);
+    const inputIds: string[] =
+      derivedFrom.length > 0 ? derivedFrom : [job.request.target_entity].filter(Boolean);
+
+    const inputs = await Promise.all(inputIds.map(async (id) => [id, await propertiesOf(id)]));
+    const provenance: Provenance = { ...base };
+    // Only hash when every input could be read; a partial hash would be misleading
+    if (inputs.length > 0 && inputs.every(([, properties]) => properties !== undefined)) {
+      provenance.input_hash = await hashInputs(Object.fromEntries(inputs));
+    }
+
+    const log: string | undefined = job.logId;
+    const result = await next({
+      ...call,
+      init: {
+        ...call.init,
+        body: {
+          ...body,
+          properties: { ...body.properties, [PROVENANCE_PROPERTY]: provenance },
+          relationships: log ? [...relationships, generatedBy(log)] : relationships,
+        },
+      },
+    });
+
+    const created = entityFields(result.data);
+    if (!log && created.id) unlinked.set(created.id, created.cid);
+    return result;
+  });
+
+  return () => {
+    active = false;
+  };
+}
+
+/**
+ * Link the entities a job created before its klados_log existed to the log
+ *
+ * Call inside job.run, once KladosJob has written the log; does nothing if
+ * every entity was linked when it was created. Like the rest of provenance,
+ * linking never fails the job: entities that can't be updated are logged
+ * and left without generated_by.
+ */
+export async function linkProvenance(job: KladosJob): Promise<void> {
+  const log: string | undefined = job.logId;
+  const unlinked = UNLINKED.get(job);
+  if (!log || !unlinked) return;
+  UNLINKED.delete(job);
+
+  for (const [id, cid] of unlinked) {
+    const result: ApiResult = await job.client.api
+      .PUT('/entities/{id}', {
+        params: { path: { id } },
+        body: { ...(cid && { expect_tip: cid }), relationships_add: [generatedBy(log)] },
+      })
+      .catch((err: unknown) => ({ error: err }));
+    if (result.error || !result.data) {
+      job.log.warning("Failed to link output to the job's log", { outputId: id });
+    }
+  }
+}
+
+/**
+ * Find outputs in a collection by provenance, e.g. { agent_version: '1.2.0' }
+ */
+export async function findOutputs(
+  job: KladosJob,
+  collectionId: string,
+  filter: Partial<Omit<Provenance, 'input_hash'>>,
+  type?: string
+): Promise<ListedEntity[]> {
+  const matches: ListedEntity[] = [];
+  await scanCollection(job, collectionId, type, (entity) => {
+    const provenance = entity.properties?.[PROVENANCE_PROPERTY] as Provenance | undefined;
+    if (
+      provenance !== undefined &&
+      Object.entries(filter).every(([key, value]) => provenance[key as keyof Provenance] === value)
+    ) {
+      matches.push(entity);
+    }
+  });
+  return matches;
+}
@@ -0,0 +1,224 @@
+/**
+ * Queue Execution Mode
+ *
+ * With EXECUTION_MODE = "queue", POST /process enqueues the KladosRequest on
+ * JOB_QUEUE instead of running it in waitUntil. The queue() consumer then runs
+ * the job, which gives retries, backpressure and redelivery if an isolate is
+ * evicted mid-job.
+ *
+ * - Retryable errors (network, timeout, rate limit) are retried with
+ *   exponential backoff, up to QUEUE_MAX_RETRIES (keep it equal to the
+ *   consumer's max_retries)
+ * - Other errors, and retryable ones on the final attempt, are acknowledged;
+ *   KladosJob has already recorded them
+ * - Messages whose attempts never finished land on the dead-letter queue,
+ *   whose consumer marks the job as failed in the klados log
+ *
+ * Processing runs before job.run (see runJob's willRetry), so an attempt
+ * that will be retried leaves no klados_log, batch slot update or job event
+ * behind. job.log keeps what it logged until the attempt that finishes
+ * writes the klados_log.
+ */
+
+import {
+  KladosJob,
+  KladosErrorCode,
+  createKladosError,
+  getKladosConfig,
+  type KladosRequest,
+} from '@arke-institute/rhiza';
+import { runJob } from './execute';
+import {
+  getJobRecord,
+  putJobRecord,
+  recordAccepted,
+  type JobRecord,
+  type JobStatus,
+} from './idempotency';
+import { openStatus } from './status';
+import { jobEvent, notifyJob } from './notify';
+import { resolveKlados, type HostedKlados } from './kladoi';
+import type { Env } from './types';
+
+/** Default base delay for retry backoff */
+const DEFAULT_RETRY_DELAY_SECONDS = 10;
+
+/** Cloudflare Queues' default max_retries */
+const DEFAULT_MAX_RETRIES = 3;
+
+/** Longest delay Cloudflare Queues accepts for a retry (12 hours) */
+const MAX_RETRY_DELAY_SECONDS = 12 * 60 * 60;
+
+/** Job record statuses of jobs whose klados_log has been finalized */
+const FINALIZED: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+const RETRYABLE_CODES: string[] = [
+  KladosErrorCode.NETWORK_ERROR,
+  KladosErrorCode.TIMEOUT,
+  KladosErrorCode.RATE_LIMITED,
+];
+
+/**
+ * Whether an error thrown by a job is worth retrying
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (typeof err !== 'object' || err === null) return false;
+  const { retryable, code } = err as { retryable?: boolean; code?: string };
+  return retryable ?? (code !== undefined && RETRYABLE_CODES.includes(code));
+}
+
+/**
+ * Exponential backoff delay for a delivery attempt (1-based)
+ */
+export function retryDelaySeconds(attempt: number, baseSeconds: number): number {
+  return Math.min(baseSeconds * 2 ** (attempt - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Whether /process should enqueue instead of running in waitUntil
+ */
+export function isQueueMode(env: Env): boolean {
+  return env.EXECUTION_MODE === 'queue';
+}
+
+/**
+ * Queue consumer entry point
+ */
+export async function handleQueue(
+  batch: MessageBatch<KladosRequest>,
+  env: Env,
+  ctx?: ExecutionContext
+): Promise<void> {
+  const isDeadLetter = batch.queue === env.JOB_DEAD_LETTER_QUEUE;
+
+  for (const message of batch.messages) {
+    const req = message.body;
+    const klados = resolveKlados(env, req);
+
+    // /process checked the klados, so it was removed after the job was queued.
+    // Without its keys nothing can be recorded, and redelivery won't help.
+    if (!klados) {
+      message.ack();
+      continue;
+    }
+
+    const job = KladosJob.accept(req, getKladosConfig(klados.env, req.network));
+    if (isDeadLetter) {
+      await failDeadLetter(message, job, klados, env, ctx);
+    } else {
+      await runMessage(message, job, klados, env, ctx);
+    }
+  }
+}
+
+/**
+ * Whether a delivery attempt (1-based) is the last before the dead-letter queue
+ */
+export function isFinalAttempt(attempt: number, env: Env): boolean {
+  const maxRetries = Number(env.QUEUE_MAX_RETRIES ?? DEFAULT_MAX_RETRIES);
+  return attempt > (Number.isInteger(maxRetries) ? maxRetries : DEFAULT_MAX_RETRIES);
+}
+
+/**
+ * Run one queued job and ack or retry it
+ *
+ * @param ctx - Job events are delivered in its waitUntil, so the ack doesn't wait on them
+ */
+export async function runMessage(
+  message: Message<KladosRequest>,
+  job: KladosJob,
+  klados: HostedKlados,
+  env: Env,
+  ctx?: ExecutionContext
+): Promise<void> {
+  const store = env.JOB_STATE;
+
+  let record: JobRecord | null = null;
+  if (store) {
+    const prior = await getJobRecord(store, job.request.job_id);
+
+    // Redelivery of a job that already finished or was cancelled
+    if (prior?.status === 'done' || prior?.status === 'cancelled') {
+      message.ack();
+      return;
+    }
+
+    // A redelivered message means the previous attempt ended, so an
+    // in-flight record is resumed rather than treated as a duplicate
+    record = await recordAccepted(store, job, prior);
+  }
+
+  const finalAttempt = isFinalAttempt(message.attempts, env);
+  const { retrying } = await runJob(job, klados.env, {
+    record,
+    processJob: klados.processJob,
+    willRetry: (err) => !finalAttempt && isRetryableError(err),
+    waitUntil: ctx && ((promise) => ctx.waitUntil(promise)),
+  });
+
+  if (retrying) {
+    const base = Number(env.QUEUE_RETRY_DELAY_SECONDS) || DEFAULT_RETRY_DELAY_SECONDS;
+    message.retry({ delaySeconds: retryDelaySeconds(message.attempts, base) });
+    return;
+  }
+
+  message.ack();
+}
+
+/**
+ * Record a job that reached the dead-letter queue as failed
+ *
+ * The final attempt finalizes its own failure, so messages only land here
+ * when an attempt never finished (e.g. the isolate was evicted). Jobs whose
+ * record shows they were finalized are left alone.
+ */
+export async function failDeadLetter(
+  message: Message<KladosRequest>,
+  job: KladosJob,
+  klados: HostedKlados,
+  env: Env,
+  ctx?: ExecutionContext
+): Promise<void> {
+  const jobId: string = job.request.job_id;
+  const prior = env.JOB_STATE ? await getJobRecord(env.JOB_STATE, jobId) : null;
+
+  if (prior && FINALIZED.includes(prior.status)) {
+    message.ack();
+    return;
+  }
+
+  const error = createKladosError(
+    KladosErrorCode.PROCESSING_ERROR,
+    `Job ${jobId} failed: retries exhausted, moved to dead-letter queue`
+  );
+
+  try {
+    await job.run(async () => {
+      throw error;
+    });
+  } catch {
+    // Expected: KladosJob has recorded the failure
+  }
+
+  if (env.JOB_STATE && prior) {
+    await putJobRecord(env.JOB_STATE, {
+      ...prior,
+      status: 'failed',
+      error: error.message,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  const status = await openStatus(klados.env, job);
+  status.fail(error);
+  // Nothing ran here, so the event has no duration of its own
+  const notified = notifyJob(klados.env, jobEvent(job, klados.env, { error }, 0));
+  if (ctx) {
+    ctx.waitUntil(notified);
+  } else {
+    await notified;
+  }
+  await status.flush();
+
+  message.ack();
+}
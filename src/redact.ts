@@ -0,0 +1,198 @@
+/**
+ * Log Redaction
+ *
+ * Everything passed to job.log ends up in a klados_log entity that other
+ * users can read, so messages and metadata are scrubbed before they're
+ * written:
+ * - Values under sensitive keys (password, access_token, api_key, prompt, ...)
+ *   are replaced with [REDACTED]
+ * - Secrets found inside strings (Arke ak_/uk_ keys, bearer tokens, emails,
+ *   credentials in URL query strings) are replaced with [REDACTED:<kind>]
+ * - Long strings and arrays, and deeply nested objects, are truncated
+ *
+ * LOG_REDACT_KEYS adds key patterns and LOG_MAX_STRING_LENGTH sets the string
+ * limit. Redaction is best effort: it keeps obvious secrets out of logs, but
+ * don't rely on it for content you know is sensitive.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import type { Env } from './types';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Finds one kind of secret inside strings
+ */
+export interface Detector {
+  /** Shown in the replacement, e.g. [REDACTED:email] */
+  name: string;
+  /** Global pattern; matches are replaced, or just the `secret` group if present */
+  pattern: RegExp;
+}
+
+export interface RedactionOptions {
+  /** Keys whose values are redacted whole */
+  keys: RegExp[];
+  /** Secrets redacted wherever they appear in strings */
+  detectors: Detector[];
+  /** Longest string kept, in characters */
+  maxStringLength: number;
+  /** Most array items kept */
+  maxArrayItems: number;
+  /** Deepest nesting kept */
+  maxDepth: number;
+}
+
+export const DEFAULT_SENSITIVE_KEYS: RegExp[] = [
+  /passw(or)?d/i,
+  /secret/i,
+  /token$/i,
+  /api[_-]?key/i,
+  /^(agent|user)[_-]?key$/i,
+  /authorization/i,
+  /cookie/i,
+  /credential/i,
+  /private[_-]?key/i,
+  /prompts?$/i,
+];
+
+export const DEFAULT_DETECTORS: Detector[] = [
+  { name: 'arke_key', pattern: /\b(?:ak|uk)_[A-Za-z0-9_-]{8,}/g },
+  { name: 'bearer', pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/=-]+)/gi },
+  {
+    name: 'url_credential',
+    pattern: new RegExp(
+      '[?&](?:access_token|api_key|apikey|key|token|sig|signature|secret|password)' +
+        '=(?<secret>[^&#\\s]+)',
+      'gi'
+    ),
+  },
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+const DEFAULT_MAX_STRING_LENGTH = 1_000;
+const DEFAULT_MAX_ARRAY_ITEMS = 50;
+const DEFAULT_MAX_DEPTH = 6;
+
+const LEVELS = ['info', 'success', 'warning', 'error'] as const;
+
+/**
+ * A key pattern from config; invalid regular expressions match literally
+ */
+function keyPattern(source: string): RegExp {
+  try {
+    return new RegExp(source, 'i');
+  } catch {
+    return new RegExp(source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+}
+
+/**
+ * Redaction settings from env, on top of the defaults
+ *
+ * LOG_REDACT_KEYS is a comma-separated list of case-insensitive patterns.
+ */
+export function redactionOptions(env: Env): RedactionOptions {
+  const extraKeys = (env.LOG_REDACT_KEYS ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map(keyPattern);
+
+  return {
+    keys: [...DEFAULT_SENSITIVE_KEYS, ...extraKeys],
+    detectors: DEFAULT_DETECTORS,
+    maxStringLength: Number(env.LOG_MAX_STRING_LENGTH) || DEFAULT_MAX_STRING_LENGTH,
+    maxArrayItems: DEFAULT_MAX_ARRAY_ITEMS,
+    maxDepth: DEFAULT_MAX_DEPTH,
+  };
+}
+
+// =============================================================================
+// Redaction
+// =============================================================================
+
+/**
+ * Replace detected secrets in a string and truncate it
+ */
+export function redactText(text: string, options: RedactionOptions): string {
+  let result = text;
+  for (const { name, pattern } of options.detectors) {
+    const replacement = `[REDACTED:${name}]`;
+    result = result.replace(pattern, (match, ...args) => {
+      const groups = args.at(-1) as Record<string, string> | undefined;
+      const secret = typeof groups === 'object' ? groups?.secret : undefined;
+      return secret ? match.replace(secret, replacement) : replacement;
+    });
+  }
+
+  if (result.length > options.maxStringLength) {
+    const dropped = result.length - options.maxStringLength;
+    result = `${result.slice(0, options.maxStringLength)}…[truncated ${dropped} chars]`;
+  }
+  return result;
+}
+
+/**
+ * Redacted copy of a value, for logging
+ */
+export function redact(value: unknown, options: RedactionOptions): unknown {
+  // Objects being visited, to catch cycles (the same object may appear twice elsewhere)
+  const ancestors = new WeakSet<object>();
+
+  const visit = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') return redactText(current, options);
+    if (current === null || typeof current !== 'object') return current;
+
+    if (ancestors.has(current)) return '[Circular]';
+    if (depth >= options.maxDepth) return '[Truncated: too deep]';
+
+    if (current instanceof Error) {
+      return { name: current.name, message: redactText(current.message, options) };
+    }
+
+    ancestors.add(current);
+    try {
+      if (Array.isArray(current)) {
+        const items = current
+          .slice(0, options.maxArrayItems)
+          .map((item) => visit(item, depth + 1));
+        const dropped = current.length - items.length;
+        return dropped > 0 ? [...items, `…[truncated ${dropped} items]`] : items;
+      }
+
+      return Object.fromEntries(
+        Object.entries(current).map(([key, item]) => [
+          key,
+          options.keys.some((pattern) => pattern.test(key)) ? REDACTED : visit(item, depth + 1),
+        ])
+      );
+    } finally {
+      ancestors.delete(current);
+    }
+  };
+
+  return visit(value, 0);
+}
+
+/**
+ * Redact everything logged through job.log from now on
+ */
+export function redactLog(job: KladosJob, options: RedactionOptions): void {
+  const log = job.log as unknown as Record<
+    string,
+    (message: string, metadata?: Record<string, unknown>) => void
+  >;
+
+  for (const level of LEVELS) {
+    const original = log[level];
+    if (!original) continue;
+
+    log[level] = (message, metadata) =>
+      original.call(
+        log,
+        redactText(String(message), options),
+        metadata && (redact(metadata, options) as Record<string, unknown>)
+      );
+  }
+}
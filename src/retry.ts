@@ -0,0 +1,211 @@
+/**
+ * Resilient API Calls
+ *
+ * Retries job.client calls that fail transiently (429, 5xx, network errors)
+ * with jittered exponential backoff, honoring Retry-After. Only calls that are
+ * safe to repeat are retried:
+ * - GET, PUT and DELETE (PUT is guarded by expect_tip, DELETE is idempotent)
+ * - POST only when the API rejected it without processing it (429, 503)
+ *
+ * Every retry is recorded in the job log. When retries run out, apiError
+ * turns the failure into a KladosError with the matching code and a
+ * retryable flag, which queue mode uses to decide whether to redeliver.
+ * A failed POST the API may have processed is never retryable, since
+ * running the job again could create its outputs twice.
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { interceptClient, type ApiCall, type ApiResult, type HttpMethod } from './client';
+
+export interface RetryOptions {
+  /** Attempts per call, including the first (default: 4) */
+  maxAttempts?: number;
+  /** Backoff base delay (default: 250ms) */
+  baseDelayMs?: number;
+  /** Longest wait between attempts, including Retry-After (default: 10s) */
+  maxDelayMs?: number;
+  /** Stops retrying when aborted */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+
+/** Statuses worth retrying for calls that are safe to repeat */
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** Statuses that mean the API did not process the request */
+const UNPROCESSED_STATUSES = [429, 503];
+
+/**
+ * HTTP status of a failed call, if known
+ */
+export function statusOf(result: ApiResult): number | undefined {
+  if (result.response) return result.response.status;
+  const error = result.error;
+  const status =
+    typeof error === 'object' && error !== null ? Reflect.get(error, 'status') : undefined;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Classify an HTTP error status as a KladosErrorCode
+ *
+ * @param method - Method of the failed call; a POST is only retryable if the
+ *   API rejected it without processing it (429, 503)
+ */
+export function classifyStatus(
+  status: number,
+  method: HttpMethod = 'GET'
+): { code: KladosErrorCode; retryable: boolean } {
+  const safe = method !== 'POST' || UNPROCESSED_STATUSES.includes(status);
+  if (status === 404) return { code: KladosErrorCode.NOT_FOUND, retryable: false };
+  if (status === 408 || status === 504) return { code: KladosErrorCode.TIMEOUT, retryable: safe };
+  if (status === 429) return { code: KladosErrorCode.RATE_LIMITED, retryable: true };
+  if (status >= 500) return { code: KladosErrorCode.NETWORK_ERROR, retryable: safe };
+  if (status === 400 || status === 422) {
+    return { code: KladosErrorCode.VALIDATION_ERROR, retryable: false };
+  }
+  return { code: KladosErrorCode.PROCESSING_ERROR, retryable: false };
+}
+
+/**
+ * Turn a failed API result into a KladosError
+ *
+ * @param action - What failed, e.g. 'Failed to create output entity'
+ * @param method - Method of the failed call (default: GET); pass 'POST' for creates
+ */
+export function apiError(action: string, result: ApiResult, method: HttpMethod = 'GET') {
+  const status = statusOf(result);
+  // Network failures are thrown by retryClient, so a missing status isn't one
+  const { code, retryable } =
+    status === undefined
+      ? { code: KladosErrorCode.PROCESSING_ERROR, retryable: false }
+      : classifyStatus(status, method);
+
+  return Object.assign(
+    createKladosError(code, `${action}: ${JSON.stringify(result.error)}`, { status }),
+    { retryable }
+  );
+}
+
+/**
+ * Delay before retry number `attempt` (1-based), with full jitter
+ */
+export function backoffDelayMs(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a thrown error is a transport failure, rather than an abort or a
+ * KladosError raised by another interceptor (cancellation, budget)
+ */
+function isTransportError(err: unknown): boolean {
+  return err instanceof Error && err.name !== 'AbortError' && !('code' in err);
+}
+
+function shouldRetry(call: ApiCall, status: number | undefined): boolean {
+  if (status === undefined) return false;
+  const retryable = call.method === 'POST' ? UNPROCESSED_STATUSES : TRANSIENT_STATUSES;
+  return retryable.includes(status);
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry transient failures of job.client calls made while processJob runs
+ *
+ * Results keep the openapi-fetch shape; use apiError to throw on failure.
+ * Transport errors that outlast the retries are thrown as NETWORK_ERROR.
+ *
+ * @returns Function that stops retrying, so KladosJob's own finalization
+ *   isn't delayed
+ */
+export function retryClient(job: KladosJob, options: RetryOptions = {}): () => void {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  let active = true;
+
+  interceptClient(job, async (call, next) => {
+    for (let attempt = 1; ; attempt++) {
+      let result: ApiResult | undefined;
+      let thrown: unknown;
+
+      try {
+        result = await next(call);
+      } catch (err) {
+        if (!isTransportError(err)) throw err;
+        thrown = err;
+      }
+
+      const status = result ? statusOf(result) : undefined;
+      const failed =
+        thrown !== undefined || (result?.error !== undefined && shouldRetry(call, status));
+      // Transport errors on a POST may have been processed, so they aren't repeated
+      const safe = call.method !== 'POST';
+      const retryable = thrown !== undefined ? safe : failed;
+
+      if (!failed || !retryable || !active || attempt >= maxAttempts || options.signal?.aborted) {
+        if (thrown === undefined) return result!;
+        const message = thrown instanceof Error ? thrown.message : String(thrown);
+        throw Object.assign(
+          createKladosError(
+            KladosErrorCode.NETWORK_ERROR,
+            `${call.method} ${call.path} failed: ${message}`,
+            { attempts: attempt }
+          ),
+          { retryable: safe }
+        );
+      }
+
+      const retryAfterMs = parseRetryAfter(result?.response?.headers.get('Retry-After'));
+      const delayMs = Math.min(
+        maxDelayMs,
+        retryAfterMs ?? backoffDelayMs(attempt, baseDelayMs, maxDelayMs)
+      );
+
+      job.log.warning(`Retrying ${call.method} ${call.path}`, {
+        attempt,
+        status: status ?? 'network error',
+        delayMs,
+      });
+      await sleep(delayMs, options.signal);
+    }
+  });
+
+  return () => {
+    active = false;
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Job Status Tracking
+ *
+ * Records what each job is doing so operators can inspect it through
+ * GET /jobs/:jobId and GET /jobs:
+ *
+ *   accepted → fetching_target → processing → creating_outputs → handing_off → done
+ *                                                                            ↘ failed / cancelled
+ *
+ * Queue mode moves a job whose attempt failed and will be redelivered to
+ * 'retrying' (see ./queue).
+ *
+ * Each phase change is timestamped, so every record carries per-phase timings.
+ * Records live in the JOB_STATE KV namespace when bound (visible across
+ * isolates), otherwise in memory for the current isolate only. KV takes
+ * about one write per second to a key, so changes made in quick succession
+ * are coalesced into one write, and flush() writes the latest state.
+ *
+ * Status writes never fail a job: storage errors are swallowed.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { sleep } from './retry';
+import type { Env, JobPhase } from './types';
+
+/** Key prefix for status records */
+const STATUS_PREFIX = 'status:';
+
+/** Key prefix for the per-network recency index */
+const INDEX_PREFIX = 'jobs:';
+
+/** How long status records are kept (7 days) */
+const STATUS_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Minimum spacing of writes to a status record in KV */
+const MIN_WRITE_INTERVAL_MS = 1000;
+
+/** Records kept by the in-memory fallback */
+const MEMORY_LIMIT = 100;
+
+/** Phases that end a job */
+const FINAL_PHASES: JobPhase[] = ['done', 'failed', 'cancelled'];
+
+/**
+ * Time spent in one phase
+ */
+export interface PhaseTiming {
+  phase: JobPhase;
+  started_at: string;
+  ended_at?: string;
+  duration_ms?: number;
+}
+
+/**
+ * Status of a job as returned by GET /jobs/:jobId
+ */
+export interface JobStatusRecord {
+  job_id: string;
+  network: string;
+  target: string | string[] | undefined;
+  phase: JobPhase;
+  phases: PhaseTiming[];
+  output_ids?: string[];
+  error?: { code?: string; message: string };
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Updates a job's status as it runs
+ */
+export interface StatusTracker {
+  readonly status: JobStatusRecord;
+  phase(phase: JobPhase): void;
+  /** Record the job's outputs as it moves to handoff */
+  handoff(outputIds: string[]): void;
+  finish(): void;
+  fail(error: unknown, phase?: JobPhase): void;
+  /** Write the latest state now and wait for pending writes */
+  flush(): Promise<void>;
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+const memory = new Map<string, JobStatusRecord>();
+
+/** Inverted timestamp so lexicographic KV listing returns newest first */
+function recencyKey(status: JobStatusRecord): string {
+  const inverted = String(Number.MAX_SAFE_INTEGER - Date.parse(status.created_at)).padStart(16, '0');
+  return `${INDEX_PREFIX}${status.network}:${inverted}:${status.job_id}`;
+}
+
+async function save(env: Env, status: JobStatusRecord, isNew: boolean): Promise<void> {
+  const kv = env.JOB_STATE;
+
+  if (!kv) {
+    memory.delete(status.job_id);
+    memory.set(status.job_id, structuredClone(status));
+    if (memory.size > MEMORY_LIMIT) {
+      memory.delete(memory.keys().next().value!);
+    }
+    return;
+  }
+
+  const options = { expirationTtl: STATUS_TTL_SECONDS };
+  await kv.put(`${STATUS_PREFIX}${status.job_id}`, JSON.stringify(status), options);
+  if (isNew) {
+    await kv.put(recencyKey(status), status.job_id, options);
+  }
+}
+
+/**
+ * Load the status of a job
+ */
+export async function getJobStatus(env: Env, jobId: string): Promise<JobStatusRecord | null> {
+  if (!env.JOB_STATE) {
+    return memory.get(jobId) ?? null;
+  }
+  return env.JOB_STATE.get<JobStatusRecord>(`${STATUS_PREFIX}${jobId}`, 'json');
+}
+
+/**
+ * List the most recent jobs on a network, newest first
+ */
+export async function listJobStatuses(
+  env: Env,
+  network: string,
+  limit: number
+): Promise<JobStatusRecord[]> {
+  if (!env.JOB_STATE) {
+    return [...memory.values()]
+      .filter((status) => status.network === network)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+  }
+
+  const { keys } = await env.JOB_STATE.list({ prefix: `${INDEX_PREFIX}${network}:`, limit });
+  const statuses = await Promise.all(
+    keys.map((key) => getJobStatus(env, key.name.slice(key.name.lastIndexOf(':') + 1)))
+  );
+  return statuses.filter((status): status is JobStatusRecord => status !== null);
+}
+
+// =============================================================================
+// Tracking
+// =============================================================================
+
+/**
+ * Error code and message, for JSON responses and records
+ */
+export function describeError(error: unknown): { code?: string; message: string } {
+  const code = (error as { code?: string } | null)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  return code ? { code, message } : { message };
+}
+
+/**
+ * Start tracking a job, resuming its existing status record if there is one
+ *
+ * New records start in the 'accepted' phase.
+ */
+export async function openStatus(env: Env, job: KladosJob): Promise<StatusTracker> {
+  const jobId: string = job.request.job_id;
+  const existing = await getJobStatus(env, jobId).catch(() => null);
+  const now = new Date().toISOString();
+
+  let status: JobStatusRecord = existing ?? {
+    job_id: jobId,
+    network: job.request.network ?? 'test',
+    target: job.request.target_entity ?? job.request.target_entities,
+    phase: 'accepted',
+    phases: [{ phase: 'accepted', started_at: now }],
+    created_at: now,
+    updated_at: now,
+  };
+
+  // Writes are chained so they land in order, and spaced so KV accepts them
+  let pending: Promise<void> = existing
+    ? Promise.resolve()
+    : save(env, status, true).catch(() => {});
+  let lastWrite = existing ? 0 : Date.now();
+  let dirty = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const writeLatest = () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    if (!dirty) return;
+    dirty = false;
+
+    pending = pending
+      .then(async () => {
+        const wait = lastWrite + MIN_WRITE_INTERVAL_MS - Date.now();
+        if (env.JOB_STATE && wait > 0) await sleep(wait);
+        lastWrite = Date.now();
+        await save(env, status, false);
+      })
+      .catch(() => {});
+  };
+
+  const scheduleWrite = () => {
+    dirty = true;
+    if (!env.JOB_STATE) {
+      writeLatest();
+    } else if (!timer) {
+      timer = setTimeout(writeLatest, Math.max(0, lastWrite + MIN_WRITE_INTERVAL_MS - Date.now()));
+    }
+  };
+
+  const update = (changes: Partial<JobStatusRecord>, phase?: JobPhase) => {
+    const now = new Date();
+    const phases = [...status.phases];
+
+    if (phase && phase !== status.phase) {
+      const current = phases[phases.length - 1];
+      if (current && !current.ended_at) {
+        phases[phases.length - 1] = {
+          ...current,
+          ended_at: now.toISOString(),
+          duration_ms: now.getTime() - Date.parse(current.started_at),
+        };
+      }
+      if (!FINAL_PHASES.includes(phase)) {
+        phases.push({ phase, started_at: now.toISOString() });
+      }
+    }
+
+    status = {
+      ...status,
+      ...changes,
+      phase: phase ?? status.phase,
+      phases,
+      updated_at: now.toISOString(),
+    };
+
+    scheduleWrite();
+  };
+
+  return {
+    get status() {
+      return status;
+    },
+    phase(phase) {
+      update({}, phase);
+    },
+    handoff(outputIds) {
+      update({ output_ids: outputIds }, 'handing_off');
+    },
+    finish() {
+      update({}, 'done');
+    },
+    fail(error, phase = 'failed') {
+      update({ error: describeError(error) }, phase);
+    },
+    flush() {
+      writeLatest();
+      return pending;
+    },
+  };
+}
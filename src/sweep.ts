@@ -0,0 +1,355 @@
+/**
+ * Scheduled Sweep
+ *
+ * Workers normally only run when Arke invokes /process, so entities added to
+ * a collection outside a workflow are never processed. With a cron trigger,
+ * SWEEP_COLLECTIONS set and JOB_STATE bound, the scheduled() handler scans
+ * those collections for entities this klados accepts but hasn't produced a
+ * derived_from output for yet, and invokes the klados on them through Arke.
+ * Each invocation is an ordinary job, with its own klados_log.
+ *
+ * - At most SWEEP_MAX_JOBS targets are invoked per run, per hosted klados,
+ *   and at most MAX_PAGES_PER_RUN pages of each collection are read
+ * - State in JOB_STATE records where each collection's scan stopped, so the
+ *   next run resumes there; after the last page it starts over, picking up
+ *   entities added since
+ * - The same state records the outputs seen so far (recognized by their
+ *   provenance, see ./provenance) with their targets, and the targets invoked.
+ *   Nothing is invoked until a first pass over the collection has recorded its
+ *   existing outputs, and invoked targets are only invoked again if no output
+ *   has appeared after INVOKED_RETRY_MS
+ * - Outputs already recorded aren't read again. At most MAX_TRACKED_OUTPUTS
+ *   are kept per collection; beyond that the oldest are dropped with their
+ *   targets and recorded again when the scan next reaches them
+ * - Invocation counts and scan failures are recorded in metrics (see ./metrics)
+ */
+
+import { ArkeClient } from '@arke-institute/sdk';
+import { apiError } from './retry';
+import { hostedKladoi, type HostedKlados } from './kladoi';
+import { kladosIdFor, PROVENANCE_PROPERTY, type Provenance } from './provenance';
+import { MetricsRegistry, flushMetrics } from './metrics';
+import { entityFields, type ApiCall, type ApiResult } from './client';
+import type { Env } from './types';
+
+/** Key prefix for sweep state */
+const KEY_PREFIX = 'sweep:';
+
+/** Default targets invoked per run */
+const DEFAULT_MAX_JOBS = 25;
+
+/** Entities listed per page */
+const PAGE_SIZE = 100;
+
+/** Pages of each collection read per run */
+const MAX_PAGES_PER_RUN = 10;
+
+/** How long an invoked target's job has to produce an output before it is invoked again */
+const INVOKED_RETRY_MS = 24 * 60 * 60 * 1000;
+
+/** Outputs recorded in each collection's sweep state; the oldest are dropped beyond this */
+const MAX_TRACKED_OUTPUTS = 10_000;
+
+/** Types that are never targets */
+const SKIPPED_TYPES = ['collection', 'klados_log'];
+
+/**
+ * The part of ArkeClient the sweep uses
+ */
+export interface SweepClient {
+  api: {
+    GET(path: string, init?: ApiCall['init']): Promise<ApiResult>;
+    POST(path: string, init?: ApiCall['init']): Promise<ApiResult>;
+  };
+}
+
+export interface SweepOptions {
+  /** Collections to scan */
+  collections: string[];
+  /** Targets invoked per run */
+  maxJobs: number;
+  /** Network the sweep runs on */
+  network: 'test' | 'main';
+}
+
+/**
+ * What the sweep knows about one collection, for one klados
+ */
+interface SweepState {
+  /** Where the scan stopped: a page cursor and position in that page */
+  cursor?: string;
+  offset: number;
+  /** Whether a full pass has recorded the outputs already in the collection */
+  indexed?: boolean;
+  /** Outputs from this klados seen so far, oldest first, with the targets they're derived from */
+  outputs: Record<string, string[]>;
+  /** Targets invoked without an output seen yet, with when they were invoked */
+  invoked: Record<string, number>;
+}
+
+/**
+ * Result of sweeping one klados
+ */
+export interface SweepResult {
+  klados_id: string;
+  /** Targets invoked */
+  invoked: string[];
+  /** Targets whose invocation failed; they're found again by a later scan */
+  failed: string[];
+}
+
+interface Relationship {
+  predicate: string;
+  peer: string;
+}
+
+interface ListedEntity {
+  id: string;
+  type: string;
+  properties?: Record<string, unknown>;
+  relationships?: Relationship[];
+}
+
+/**
+ * Sweep settings from env, or undefined if SWEEP_COLLECTIONS isn't set
+ */
+export function sweepOptions(env: Env): SweepOptions | undefined {
+  const collections = (env.SWEEP_COLLECTIONS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (collections.length === 0) return undefined;
+
+  return {
+    collections,
+    maxJobs: Number(env.SWEEP_MAX_JOBS) || DEFAULT_MAX_JOBS,
+    network: env.SWEEP_NETWORK === 'main' ? 'main' : 'test',
+  };
+}
+
+// =============================================================================
+// Scanning
+// =============================================================================
+
+async function listPage(
+  client: SweepClient,
+  collectionId: string,
+  query: Record<string, unknown>
+): Promise<{ entities: ListedEntity[]; cursor?: string }> {
+  const result = await client.api.GET('/collections/{id}/entities', {
+    params: { path: { id: collectionId }, query },
+  });
+  if (result.error || !result.data) {
+    throw apiError(`Failed to list collection ${collectionId}`, result);
+  }
+  const page = result.data as { entities?: ListedEntity[]; cursor?: string | null };
+  return { entities: page.entities ?? [], cursor: page.cursor ?? undefined };
+}
+
+function producedBy(entity: ListedEntity, kladosId: string): boolean {
+  const provenance = entity.properties?.[PROVENANCE_PROPERTY] as Provenance | undefined;
+  return provenance?.klados_id === kladosId;
+}
+
+function matchesTypes(type: string, allowed: string[]): boolean {
+  return allowed.includes('*') || allowed.includes(type);
+}
+
+/**
+ * derived_from peers of an output
+ */
+async function derivedFrom(client: SweepClient, entity: ListedEntity): Promise<string[]> {
+  let relationships = entity.relationships;
+  if (!relationships) {
+    // Listings may omit relationships; read them from the entity itself
+    const { data } = await client.api.GET('/entities/{id}', {
+      params: { path: { id: entity.id } },
+    });
+    relationships = entityFields(data).relationships ?? [];
+  }
+  return relationships.filter((rel) => rel.predicate === 'derived_from').map((rel) => rel.peer);
+}
+
+function stateKey(kladosId: string, collectionId: string): string {
+  return `${KEY_PREFIX}${kladosId}:${collectionId}`;
+}
+
+async function readState(
+  store: KVNamespace,
+  kladosId: string,
+  collectionId: string
+): Promise<SweepState> {
+  const stored = await store.get<Partial<SweepState>>(stateKey(kladosId, collectionId), 'json');
+  return { offset: 0, ...stored, outputs: stored?.outputs ?? {}, invoked: stored?.invoked ?? {} };
+}
+
+/**
+ * Find up to `limit` unhandled targets in a collection, resuming where the
+ * last run stopped
+ *
+ * Records the outputs on every page read, and their targets, in `state`
+ * before picking targets from that page.
+ */
+async function findTargets(
+  client: SweepClient,
+  state: SweepState,
+  collectionId: string,
+  klados: HostedKlados,
+  kladosId: string,
+  limit: number
+): Promise<string[]> {
+  const outputs = new Map(Object.entries(state.outputs));
+  const handled = new Set([...outputs.values()].flat());
+  const retryBefore = Date.now() - INVOKED_RETRY_MS;
+  const targets: string[] = [];
+
+  for (let pages = 0; pages < MAX_PAGES_PER_RUN && targets.length < limit; pages++) {
+    const page = await listPage(client, collectionId, {
+      limit: PAGE_SIZE,
+      ...(state.cursor && { cursor: state.cursor }),
+    });
+
+    for (const entity of page.entities) {
+      if (!producedBy(entity, kladosId) || outputs.has(entity.id)) continue;
+      const peers = await derivedFrom(client, entity);
+      outputs.set(entity.id, peers);
+      for (const peer of peers) {
+        handled.add(peer);
+        delete state.invoked[peer];
+      }
+    }
+
+    // Until the first pass is done, outputs later in the collection may not be recorded yet
+    let index = state.indexed ? state.offset : page.entities.length;
+    for (; index < page.entities.length && targets.length < limit; index++) {
+      const entity = page.entities[index];
+      if (
+        !SKIPPED_TYPES.includes(entity.type) &&
+        matchesTypes(entity.type, klados.agent.accepts.types) &&
+        !producedBy(entity, kladosId) &&
+        !handled.has(entity.id) &&
+        !(state.invoked[entity.id] > retryBefore)
+      ) {
+        targets.push(entity.id);
+      }
+    }
+
+    if (index < page.entities.length) {
+      // Stopped mid-page: resume at the next entity
+      state.offset = index;
+      break;
+    }
+    if (page.cursor) {
+      state.cursor = page.cursor;
+      state.offset = 0;
+      continue;
+    }
+
+    // Reached the end: start over, next run once the collection has been indexed
+    state.cursor = undefined;
+    state.offset = 0;
+    if (state.indexed) break;
+    state.indexed = true;
+  }
+
+  state.outputs = Object.fromEntries([...outputs].slice(-MAX_TRACKED_OUTPUTS));
+  return targets;
+}
+
+// =============================================================================
+// Sweeping
+// =============================================================================
+
+/**
+ * Find and invoke unhandled targets for one klados
+ *
+ * @param store - Holds each collection's sweep state (JOB_STATE)
+ */
+export async function sweepKlados(
+  client: SweepClient,
+  store: KVNamespace,
+  klados: HostedKlados,
+  options: SweepOptions
+): Promise<SweepResult> {
+  const kladosId = kladosIdFor(klados.env, options.network);
+  const result: SweepResult = { klados_id: kladosId, invoked: [], failed: [] };
+
+  for (const collectionId of options.collections) {
+    const remaining = options.maxJobs - result.invoked.length - result.failed.length;
+    if (remaining <= 0) break;
+
+    const state = await readState(store, kladosId, collectionId);
+    const targets = await findTargets(client, state, collectionId, klados, kladosId, remaining);
+
+    // cardinality 'many' takes every target in one job
+    const invocations: Array<{ target_entity?: string; target_entities?: string[] }> =
+      targets.length === 0
+        ? []
+        : klados.agent.accepts.cardinality === 'many'
+          ? [{ target_entities: targets }]
+          : targets.map((id) => ({ target_entity: id }));
+
+    for (const invocation of invocations) {
+      const ids = invocation.target_entities ?? [invocation.target_entity!];
+      const { error } = await client.api.POST('/kladoi/{id}/invoke', {
+        params: { path: { id: kladosId } },
+        body: { ...invocation, target_collection: collectionId, confirm: true },
+      });
+      if (error) {
+        result.failed.push(...ids);
+        continue;
+      }
+      result.invoked.push(...ids);
+      for (const id of ids) state.invoked[id] = Date.now();
+    }
+
+    await store.put(stateKey(kladosId, collectionId), JSON.stringify(state));
+  }
+
+  return result;
+}
+
+/**
+ * Agent key for a network, matching getKladosConfig's per-network overrides
+ */
+function agentKeyFor(env: Env, network: string): string {
+  const override = network === 'main' ? env.ARKE_AGENT_KEY_MAIN : env.ARKE_AGENT_KEY_TEST;
+  return override || env.ARKE_AGENT_KEY;
+}
+
+/**
+ * Cron trigger entry point: sweep every hosted klados
+ *
+ * Needs JOB_STATE for the sweep state. Invoked and failed targets are counted
+ * in klados_sweep_targets_total, and kladoi whose scan failed in
+ * klados_sweep_errors_total.
+ */
+export async function handleScheduled(
+  _controller: ScheduledController,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<void> {
+  const options = sweepOptions(env);
+  if (!options || !env.JOB_STATE) return;
+
+  const metrics = new MetricsRegistry();
+  for (const klados of hostedKladoi(env)) {
+    const client: SweepClient = new ArkeClient({
+      authToken: agentKeyFor(klados.env, options.network),
+      network: options.network,
+    });
+    const labels = { klados: klados.name, network: options.network };
+
+    try {
+      const result = await sweepKlados(client, env.JOB_STATE, klados, options);
+      for (const outcome of ['invoked', 'failed'] as const) {
+        metrics.inc('klados_sweep_targets_total', { ...labels, outcome }, result[outcome].length);
+      }
+    } catch {
+      // One klados failing to scan shouldn't stop the others
+      metrics.inc('klados_sweep_errors_total', labels);
+    }
+  }
+
+  await flushMetrics(env, metrics);
+}
@@ -2,6 +2,11 @@
  * Type definitions for the klados worker
  */
 
+import type { KladosJob, KladosRequest } from '@arke-institute/rhiza';
+import type { Budget } from './budget';
+import type { ResultCache } from './cache';
+import type { JobEvent } from './notify';
+
 /**
  * Cloudflare Worker environment bindings
  *
@@ -35,6 +40,144 @@ export interface Env {
 
   /** Agent ID for verification (used before AGENT_ID is configured) */
   ARKE_VERIFY_AGENT_ID?: string;
+
+  /** Shared secret used to verify signed /process requests from Arke (secret) */
+  ARKE_SIGNING_SECRET?: string;
+
+  /** KV namespace for job execution state (optional, enables idempotent execution) */
+  JOB_STATE?: KVNamespace;
+
+  /** How /process runs jobs: "waitUntil" (default) or "queue" */
+  EXECUTION_MODE?: 'waitUntil' | 'queue';
+
+  /** Queue producer for jobs (required when EXECUTION_MODE is "queue") */
+  JOB_QUEUE?: Queue<KladosRequest>;
+
+  /** Name of the dead-letter queue, so the consumer can tell its batches apart */
+  JOB_DEAD_LETTER_QUEUE?: string;
+
+  /** Base delay in seconds for exponential retry backoff (default: 10) */
+  QUEUE_RETRY_DELAY_SECONDS?: string;
+
+  /** The job consumer's max_retries; the attempt after the last retry is finalized (default: 3) */
+  QUEUE_MAX_RETRIES?: string;
+
+  /** Durable Object that aggregates metrics across isolates (optional) */
+  METRICS?: DurableObjectNamespace;
+
+  /** Bearer token required by GET /metrics; without it /metrics is disabled (secret) */
+  METRICS_TOKEN?: string;
+
+  /** Subrequests a job may make before its budget is exhausted (default: 950) */
+  BUDGET_MAX_SUBREQUESTS?: string;
+
+  /** Milliseconds a job may run before its budget is exhausted (default: 25000) */
+  BUDGET_MAX_DURATION_MS?: string;
+
+  /** KV namespace caching processEntity results (optional; enables the cache) */
+  RESULT_CACHE?: KVNamespace;
+
+  /** Mixed into cache keys; change it to invalidate every cached result */
+  CACHE_SALT?: string;
+
+  /** How long cached results are kept (default: 604800, 7 days) */
+  CACHE_TTL_SECONDS?: string;
+
+  /**
+   * Comma-separated collection IDs the scheduled sweep scans (optional;
+   * enables it, together with JOB_STATE)
+   */
+  SWEEP_COLLECTIONS?: string;
+
+  /** Targets the sweep invokes per run (default: 25) */
+  SWEEP_MAX_JOBS?: string;
+
+  /** Network the sweep runs on: "test" (default) or "main" */
+  SWEEP_NETWORK?: string;
+
+  /** URL that job events are POSTed to (optional) */
+  NOTIFY_WEBHOOK_URL?: string;
+
+  /** Secret that webhook events are signed with (secret, optional) */
+  NOTIFY_WEBHOOK_SECRET?: string;
+
+  /** Queue producer that job events are sent to (optional) */
+  NOTIFY_QUEUE?: Queue<JobEvent>;
+
+  /** Comma-separated event types to send, e.g. "job.failed" (default: all) */
+  NOTIFY_EVENTS?: string;
+
+  /** Delivery attempts per event and channel (default: 3) */
+  NOTIFY_MAX_ATTEMPTS?: string;
+
+  /** Comma-separated extra key patterns whose values are redacted from job logs */
+  LOG_REDACT_KEYS?: string;
+
+  /** Longest string kept in job logs before truncation (default: 1000) */
+  LOG_MAX_STRING_LENGTH?: string;
+}
+
+/**
+ * Phases a job moves through (see ./status)
+ */
+export type JobPhase =
+  | 'accepted'
+  | 'fetching_target'
+  | 'processing'
+  | 'creating_outputs'
+  | 'handing_off'
+  | 'retrying'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Per-job services passed to processJob alongside the KladosJob
+ */
+export interface JobContext {
+  /** Aborted if the job is cancelled; check between long steps and pass to long-running work */
+  signal: AbortSignal;
+
+  /** Report the job's current phase (shown by GET /jobs/:jobId) */
+  phase(phase: JobPhase): void;
+
+  /** Subrequest and time budget; use budget.fetch for outbound calls */
+  budget: Budget;
+
+  /** Result cache (every lookup misses unless RESULT_CACHE is bound) */
+  cache: ResultCache;
+}
+
+/**
+ * A klados's job logic: process a job and return output entity IDs
+ */
+export type ProcessJob = (job: KladosJob, ctx: JobContext) => Promise<string[]>;
+
+/**
+ * The accepts/produces contract declared in agent.json
+ */
+export interface AgentContract {
+  accepts: {
+    /** Accepted entity types ('*' for any) */
+    types: string[];
+    /** 'one' takes target_entity, 'many' takes target_entities */
+    cardinality: 'one' | 'many';
+  };
+  produces: {
+    /** Produced entity types ('*' for any) */
+    types: string[];
+    cardinality: 'one' | 'many';
+  };
+}
+
+/**
+ * A klados's full agent.json
+ */
+export interface AgentConfig extends AgentContract {
+  label: string;
+  description?: string;
+  endpoint: string;
+  actions_required: string[];
 }
 
 /**
@@ -56,6 +199,23 @@ export interface TargetProperties {
   [key: string]: unknown;
 }
 
+/**
+ * An entity fetched for processing
+ */
+export interface TargetEntity<T extends TargetProperties = TargetProperties> {
+  id: string;
+  type: string;
+  properties: T;
+}
+
+/**
+ * How a job writes its results
+ * - 'create': a new output entity derived from the target
+ * - 'update': merged into the target entity itself (needs entity:update)
+ * - 'both': both of the above
+ */
+export type OutputMode = 'create' | 'update' | 'both';
+
 /**
  * Example: Properties for output entities created by this worker
  *
@@ -0,0 +1,81 @@
+/**
+ * Update in Place
+ *
+ * Merges properties into an existing entity with optimistic concurrency:
+ * the update is sent with expect_tip set to the CID the properties were
+ * computed from, so it is rejected with 409 if anyone else changed the entity
+ * in between. On conflict the entity is re-fetched, the patch recomputed and
+ * the update retried.
+ */
+
+import { KladosErrorCode, createKladosError, type KladosJob } from '@arke-institute/rhiza';
+import { apiError, statusOf } from './retry';
+import type { TargetProperties } from './types';
+
+/** Attempts before giving up on a contended entity */
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Properties to merge, or a function computing them from the entity's
+ * current properties (called again after every conflict)
+ */
+export type EntityPatch<T extends TargetProperties = TargetProperties> =
+  | Record<string, unknown>
+  | ((current: T) => Record<string, unknown>);
+
+export interface UpdateOptions {
+  /** Attempts, including the first (default: 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * Merge properties into an entity, retrying on concurrent modification
+ *
+ * @returns The entity's new CID
+ */
+export async function updateEntity<T extends TargetProperties = TargetProperties>(
+  job: KladosJob,
+  id: string,
+  patch: EntityPatch<T>,
+  options: UpdateOptions = {}
+): Promise<string> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const current = await job.client.api.GET('/entities/{id}', {
+      params: { path: { id } },
+    });
+    if (current.error || !current.data) {
+      throw apiError(`Failed to fetch entity ${id} for update`, current);
+    }
+
+    const entity = current.data as unknown as { cid: string; properties: T };
+    const properties = typeof patch === 'function' ? patch(entity.properties) : patch;
+
+    const result = await job.client.api.PUT('/entities/{id}', {
+      params: { path: { id } },
+      body: { expect_tip: entity.cid, properties },
+    });
+
+    if (!result.error && result.data) {
+      return (result.data as unknown as { cid: string }).cid;
+    }
+    if (statusOf(result) !== 409) {
+      throw apiError(`Failed to update entity ${id}`, result);
+    }
+
+    job.log.info(`Entity ${id} was modified concurrently, retrying update`, {
+      attempt,
+      expectedTip: entity.cid,
+    });
+  }
+
+  throw Object.assign(
+    createKladosError(
+      KladosErrorCode.PROCESSING_ERROR,
+      `Failed to update entity ${id}: modified concurrently on every attempt`,
+      { attempts: maxAttempts }
+    ),
+    { retryable: true }
+  );
+}
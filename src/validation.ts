@@ -0,0 +1,139 @@
+/**
+ * Contract Validation
+ *
+ * Enforces the accepts/produces contract declared in agent.json:
+ * - Request shape and cardinality are checked synchronously, before a job is
+ *   accepted, so malformed requests get a 400 instead of a failed job
+ * - The fetched target's type and required properties are checked inside the job
+ * - Output types are checked before entities are created
+ */
+
+import { createKladosError, KladosErrorCode } from '@arke-institute/rhiza';
+import agentConfig from '../agent.json';
+import type { AgentContract, TargetProperties } from './types';
+
+/**
+ * The contract this worker was registered with
+ */
+export const contract = agentConfig as AgentContract;
+
+/**
+ * Target properties that must be present for processing
+ *
+ * Customize this for your worker, e.g. ['content'] for a text processor.
+ */
+export const REQUIRED_TARGET_PROPERTIES: (keyof TargetProperties)[] = [];
+
+const NETWORKS = ['test', 'main'];
+
+/**
+ * A single problem found while validating a request
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function matchesTypes(type: string, allowed: string[]): boolean {
+  return allowed.includes('*') || allowed.includes(type);
+}
+
+/**
+ * Validate an incoming request body against the contract
+ *
+ * @param body - Parsed JSON body of POST /process
+ * @returns List of issues (empty if the request is valid)
+ */
+export function validateRequest(
+  body: unknown,
+  agent: AgentContract = contract
+): ValidationIssue[] {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [{ field: '', message: 'Request body must be a JSON object' }];
+  }
+
+  const req = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const field of ['job_id', 'target_collection', 'job_collection']) {
+    if (!isNonEmptyString(req[field])) {
+      issues.push({ field, message: 'Must be a non-empty string' });
+    }
+  }
+
+  if (req.network !== undefined && !NETWORKS.includes(req.network as string)) {
+    issues.push({ field: 'network', message: `Must be one of: ${NETWORKS.join(', ')}` });
+  }
+
+  // Cardinality: 'one' takes target_entity, 'many' takes target_entities
+  if (agent.accepts.cardinality === 'one') {
+    if (!isNonEmptyString(req.target_entity)) {
+      issues.push({ field: 'target_entity', message: 'Required for cardinality "one"' });
+    }
+    if (req.target_entities !== undefined) {
+      issues.push({ field: 'target_entities', message: 'Not accepted for cardinality "one"' });
+    }
+  } else {
+    const targets = req.target_entities;
+    if (!Array.isArray(targets) || targets.length === 0) {
+      issues.push({ field: 'target_entities', message: 'Required for cardinality "many"' });
+    } else if (!targets.every(isNonEmptyString)) {
+      issues.push({ field: 'target_entities', message: 'Must contain only entity IDs' });
+    }
+    if (req.target_entity !== undefined) {
+      issues.push({ field: 'target_entity', message: 'Not accepted for cardinality "many"' });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a fetched target entity against the contract
+ *
+ * @throws KladosError (INVALID_INPUT) if the type is not accepted or a
+ *         required property is missing
+ */
+export function validateTarget(
+  target: { id: string; type: string; properties: TargetProperties },
+  required: (keyof TargetProperties)[] = REQUIRED_TARGET_PROPERTIES,
+  agent: AgentContract = contract
+): void {
+  if (!matchesTypes(target.type, agent.accepts.types)) {
+    throw createKladosError(
+      KladosErrorCode.INVALID_INPUT,
+      `Target ${target.id} has type '${target.type}', expected one of: ${agent.accepts.types.join(', ')}`
+    );
+  }
+
+  const missing = required.filter((key) => {
+    const value = target.properties[key];
+    return value === undefined || value === null || value === '';
+  });
+
+  if (missing.length > 0) {
+    throw createKladosError(
+      KladosErrorCode.INVALID_INPUT,
+      `Target ${target.id} is missing required properties: ${missing.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Check that an output type is declared in produces.types
+ *
+ * @throws KladosError (VALIDATION_ERROR) if this worker would produce an
+ *         undeclared type
+ */
+export function assertProduces(type: string, agent: AgentContract = contract): void {
+  if (!matchesTypes(type, agent.produces.types)) {
+    throw createKladosError(
+      KladosErrorCode.VALIDATION_ERROR,
+      `Output type '${type}' is not declared in produces.types: ${agent.produces.types.join(', ')}`
+    );
+  }
+}
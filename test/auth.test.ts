@@ -0,0 +1,205 @@
+/**
+ * Unit tests for request authentication
+ *
+ * Uses a locally generated signing key, so no Arke access is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import {
+  requireArkeSignature,
+  signRequest,
+  verifySignature,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from '../src/auth';
+import type { Env } from '../src/types';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const SECRET = crypto.randomUUID();
+const env = { ARKE_SIGNING_SECRET: SECRET } as Env;
+
+function createApp() {
+  const app = new Hono<{ Bindings: Env }>();
+  app.post('/process', requireArkeSignature(), async (c) => {
+    const body = await c.req.json();
+    return c.json({ accepted: true, job_id: body.job_id });
+  });
+  app.post('/cancel/:jobId', requireArkeSignature(), (c) => c.json({ job_id: c.req.param('jobId') }));
+  app.get('/jobs', requireArkeSignature(), (c) => c.json({ jobs: [] }));
+  return app;
+}
+
+function body(jobId = crypto.randomUUID()): string {
+  return JSON.stringify({ job_id: jobId, target_entity: 'entity_1' });
+}
+
+/** Sign a POST /process body */
+function sign(payload: string, secret = SECRET, timestamp?: number) {
+  return signRequest(secret, { method: 'POST', path: '/process', body: payload }, timestamp);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('auth', () => {
+  it('should accept a correctly signed request', async () => {
+    const payload = body('job_1');
+    const headers = await sign(payload);
+
+    const res = await createApp().request('/process', { method: 'POST', body: payload, headers }, env);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ accepted: true, job_id: 'job_1' });
+  });
+
+  it('should reject unsigned requests', async () => {
+    const res = await createApp().request('/process', { method: 'POST', body: body() }, env);
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ error: 'Unauthorized', code: 'MISSING_SIGNATURE' });
+  });
+
+  it('should reject requests signed with another key', async () => {
+    const payload = body();
+    const headers = await sign(payload, 'not-the-secret');
+
+    const res = await createApp().request('/process', { method: 'POST', body: payload, headers }, env);
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('should reject a tampered body', async () => {
+    const headers = await sign(body('job_1'));
+
+    const res = await createApp().request(
+      '/process',
+      { method: 'POST', body: body('job_2'), headers },
+      env
+    );
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('should reject stale timestamps', async () => {
+    const payload = body();
+    const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+    const headers = await sign(payload, SECRET, tenMinutesAgo);
+
+    const res = await createApp().request('/process', { method: 'POST', body: payload, headers }, env);
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'STALE_TIMESTAMP' });
+  });
+
+  it('should reject replayed requests', async () => {
+    const payload = body();
+    const headers = await sign(payload);
+    const app = createApp();
+
+    const first = await app.request('/process', { method: 'POST', body: payload, headers }, env);
+    const second = await app.request('/process', { method: 'POST', body: payload, headers }, env);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(401);
+    expect(await second.json()).toMatchObject({ code: 'REPLAYED_REQUEST' });
+  });
+
+  it('should reject a signature replayed with different hex case', async () => {
+    const payload = body();
+    const headers = await sign(payload);
+    const [, hex] = headers[SIGNATURE_HEADER].split('=');
+    const upper = { ...headers, [SIGNATURE_HEADER]: `v1=${hex.toUpperCase()}` };
+    const app = createApp();
+
+    const first = await app.request('/process', { method: 'POST', body: payload, headers }, env);
+    const second = await app.request(
+      '/process',
+      { method: 'POST', body: payload, headers: upper },
+      env
+    );
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(401);
+    expect(await second.json()).toMatchObject({ code: 'REPLAYED_REQUEST' });
+  });
+
+  it('should remember signatures until their timestamp leaves the window', async () => {
+    const request = { method: 'POST', path: '/process', body: body() };
+    const timestamp = Math.floor(Date.now() / 1000) + 200;
+    const headers = await signRequest(SECRET, request, timestamp);
+    const verify = (now: number) =>
+      verifySignature(SECRET, request, String(timestamp), headers[SIGNATURE_HEADER], {
+        toleranceSeconds: 300,
+        now,
+      });
+
+    expect(await verify(Date.now())).toBeNull();
+    // Past now + tolerance, but the timestamp is still within the window
+    const later = Date.now() + 400_000;
+    expect((await verify(later))?.code).toBe('REPLAYED_REQUEST');
+  });
+
+  it('should bind the signature to the method and path', async () => {
+    const app = createApp();
+    const headers = await signRequest(SECRET, { method: 'GET', path: '/jobs', body: '' });
+
+    const cancel = await app.request('/cancel/job_1', { method: 'POST', headers }, env);
+    const otherQuery = await app.request('/jobs?network=main', { headers }, env);
+    const jobs = await app.request('/jobs', { headers }, env);
+
+    expect(cancel.status).toBe(401);
+    expect(await cancel.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(otherQuery.status).toBe(401);
+    expect(jobs.status).toBe(200);
+  });
+
+  it('should report malformed signature headers', async () => {
+    const request = { method: 'POST', path: '/process', body: body() };
+    const failure = await verifySignature(SECRET, request, 'yesterday', 'v1=zz');
+
+    expect(failure?.code).toBe('MALFORMED_SIGNATURE');
+  });
+
+  it('should reject signatures with anything after a second =', async () => {
+    const request = { method: 'POST', path: '/process', body: body() };
+    const headers = await signRequest(SECRET, request);
+    const timestamp = headers[TIMESTAMP_HEADER];
+
+    const failure = await verifySignature(
+      SECRET,
+      request,
+      timestamp,
+      `${headers[SIGNATURE_HEADER]}=junk`
+    );
+
+    expect(failure?.code).toBe('MALFORMED_SIGNATURE');
+    expect(await verifySignature(SECRET, request, timestamp, headers[SIGNATURE_HEADER])).toBeNull();
+  });
+
+  it('should fail closed when no secret is configured', async () => {
+    const payload = body();
+    const headers = await sign(payload);
+
+    const res = await createApp().request('/process', { method: 'POST', body: payload, headers }, {} as Env);
+
+    expect(res.status).toBe(500);
+  });
+
+  it('should let unsigned requests through when optional and no secret is configured', async () => {
+    const app = new Hono<{ Bindings: Env }>();
+    app.post('/process', requireArkeSignature({ optional: true }), (c) => c.json({ ok: true }));
+
+    const unconfigured = await app.request('/process', { method: 'POST', body: body() }, {} as Env);
+    const configured = await app.request('/process', { method: 'POST', body: body() }, env);
+
+    expect(unconfigured.status).toBe(200);
+    expect(configured.status).toBe(401);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for batch processing
+ *
+ * Runs processBatch with scripted handlers on the fake KladosJob. Handlers
+ * yield to the event loop so several items are in flight at once.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KladosErrorCode } from '@arke-institute/rhiza';
+import { processBatch } from '../src/batch';
+import { createFakeJob } from './support/fake-job';
+
+const IDS = ['ent_1', 'ent_2', 'ent_3', 'ent_4', 'ent_5', 'ent_6'];
+
+/** Let pending handlers and the batch's workers run */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('processBatch', () => {
+  it('should never run more than `concurrency` items at once', async () => {
+    const fake = createFakeJob();
+    let inFlight = 0;
+    let peak = 0;
+
+    const result = await processBatch(
+      fake.job,
+      IDS,
+      async (id) => {
+        peak = Math.max(peak, ++inFlight);
+        await tick();
+        inFlight--;
+        return [`out_${id}`];
+      },
+      { concurrency: 2 }
+    );
+
+    expect(peak).toBe(2);
+    expect(result.outputIds).toEqual(IDS.map((id) => `out_${id}`));
+    expect(result).toMatchObject({ succeeded: 6, failed: 0 });
+    fake.expectLog('success', 'Batch completed');
+  });
+
+  it('should keep going past failures within maxFailureRatio', async () => {
+    const fake = createFakeJob();
+
+    const result = await processBatch(
+      fake.job,
+      IDS,
+      async (id, index) => {
+        if (index < 3) throw new Error(`Bad ${id}`);
+        return [`out_${id}`];
+      },
+      { maxFailureRatio: 0.5 }
+    );
+
+    expect(result).toMatchObject({ succeeded: 3, failed: 3 });
+    expect(result.items[0]).toEqual({ id: 'ent_1', ok: false, error: 'Bad ent_1' });
+    expect(result.outputIds).toEqual(['out_ent_4', 'out_ent_5', 'out_ent_6']);
+    fake.expectLog('warning', 'Batch completed with failures');
+  });
+
+  it('should fail the job when failures exceed maxFailureRatio', async () => {
+    const fake = createFakeJob();
+
+    const batch = processBatch(
+      fake.job,
+      IDS,
+      async (id, index) => {
+        if (index < 4) throw new Error(`Bad ${id}`);
+        return [`out_${id}`];
+      },
+      { maxFailureRatio: 0.5 }
+    );
+
+    await expect(batch).rejects.toMatchObject({
+      code: KladosErrorCode.PROCESSING_ERROR,
+      message: 'Batch failed: 4 of 6 items failed',
+    });
+  });
+
+  it('should fail the job when every item failed, whatever the ratio', async () => {
+    const fake = createFakeJob();
+
+    const batch = processBatch(
+      fake.job,
+      IDS.slice(0, 2),
+      async (id) => {
+        throw new Error(`Bad ${id}`);
+      },
+      { maxFailureRatio: 1 }
+    );
+
+    await expect(batch).rejects.toMatchObject({
+      code: KladosErrorCode.PROCESSING_ERROR,
+      message: 'Batch failed: 2 of 2 items failed',
+    });
+    expect(fake.messages('error')).toEqual(['Failed to process ent_1', 'Failed to process ent_2']);
+  });
+
+  it('should stop starting items once aborted and throw the abort reason', async () => {
+    const fake = createFakeJob();
+    const controller = new AbortController();
+    const started: string[] = [];
+    const reason = new Error('Job cancelled');
+
+    const batch = processBatch(
+      fake.job,
+      IDS,
+      async (id) => {
+        started.push(id);
+        if (id === 'ent_2') controller.abort(reason);
+        await tick();
+        controller.signal.throwIfAborted();
+        return [`out_${id}`];
+      },
+      { concurrency: 2, signal: controller.signal }
+    );
+
+    await expect(batch).rejects.toBe(reason);
+    expect(started).toEqual(['ent_1', 'ent_2']);
+    // Items interrupted by the abort aren't logged as failures
+    expect(fake.messages('error')).toEqual([]);
+  });
+
+  it('should stop the whole batch on a fatal error', async () => {
+    const fake = createFakeJob();
+    const started: string[] = [];
+    const exhausted = new Error('Budget exhausted');
+
+    const batch = processBatch(
+      fake.job,
+      IDS,
+      async (id) => {
+        started.push(id);
+        if (id === 'ent_2') throw exhausted;
+        await tick();
+        return [`out_${id}`];
+      },
+      { concurrency: 2, isFatal: (err) => err === exhausted }
+    );
+
+    await expect(batch).rejects.toBe(exhausted);
+    // ent_1 finishes, but nothing new starts after the fatal error
+    expect(started).toEqual(['ent_1', 'ent_2']);
+    expect(fake.messages('error')).toEqual([]);
+  });
+});
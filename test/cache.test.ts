@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the result cache
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createResultCache, purgeCache } from '../src/cache';
+import { createFakeKV } from './support/fake-kv';
+
+describe('createResultCache', () => {
+  it('should compute on a miss and reuse the result on a hit', async () => {
+    const kv = createFakeKV();
+    const cache = createResultCache(kv, { version: '1.0.0' });
+    let computed = 0;
+    const compute = async () => `result ${++computed}`;
+
+    const first = await cache.getOrCompute({ title: 'A' }, compute);
+    const second = await cache.getOrCompute({ title: 'A' }, compute);
+
+    expect(first).toEqual({ value: 'result 1', hit: false });
+    expect(second).toEqual({ value: 'result 1', hit: true });
+    expect(computed).toBe(1);
+  });
+
+  it('should key on inputs, version and salt', async () => {
+    const kv = createFakeKV();
+    const compute = async () => 'result';
+    await createResultCache(kv, { version: '1.0.0' }).getOrCompute({ title: 'A' }, compute);
+
+    const lookups = await Promise.all([
+      createResultCache(kv, { version: '1.0.0' }).getOrCompute({ title: 'B' }, compute),
+      createResultCache(kv, { version: '1.1.0' }).getOrCompute({ title: 'A' }, compute),
+      createResultCache(kv, { version: '1.0.0', salt: 'v2' }).getOrCompute({ title: 'A' }, compute),
+    ]);
+
+    expect(lookups.map((lookup) => lookup.hit)).toEqual([false, false, false]);
+  });
+
+  it('should always compute without a KV namespace', async () => {
+    const cache = createResultCache(undefined, { version: '1.0.0' });
+
+    await cache.getOrCompute({ title: 'A' }, async () => 'result');
+    const lookup = await cache.getOrCompute({ title: 'A' }, async () => 'result');
+
+    expect(cache.enabled).toBe(false);
+    expect(lookup.hit).toBe(false);
+  });
+});
+
+describe('purgeCache', () => {
+  it('should delete only entries for the given version', async () => {
+    const kv = createFakeKV();
+    const compute = async () => 'result';
+    await createResultCache(kv, { version: '1.0.0' }).getOrCompute({ title: 'A' }, compute);
+    await createResultCache(kv, { version: '1.0.0' }).getOrCompute({ title: 'B' }, compute);
+    await createResultCache(kv, { version: '1.1.0' }).getOrCompute({ title: 'A' }, compute);
+
+    expect(await purgeCache(kv, '1.0.0')).toBe(2);
+    expect([...kv.data.keys()]).toHaveLength(1);
+    expect([...kv.data.keys()][0]).toMatch(/^result:1\.1\.0:/);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for chunked outputs
+ *
+ * Writes through the output builder on the fake KladosJob and reads back
+ * from its in-memory store.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addChunked, readChunked, splitText, byteLength, CHUNK_TYPE } from '../src/chunks';
+import { createOutputBuilder } from '../src/outputs';
+import { createFakeJob, type FakeTarget } from './support/fake-job';
+import type { OutputProperties } from '../src/types';
+
+const target: FakeTarget = {
+  id: 'ent_1',
+  type: 'test_entity',
+  properties: { title: 'Test Entity' },
+};
+
+describe('splitText', () => {
+  it('should split on UTF-8 byte size without breaking characters', () => {
+    const text = 'ab€cd😀e';
+    const parts = splitText(text, 4);
+
+    expect(parts.join('')).toBe(text);
+    expect(parts.every((part) => byteLength(part) <= 4)).toBe(true);
+    expect(parts).toEqual(['ab', '€c', 'd', '😀', 'e']);
+  });
+});
+
+describe('addChunked', () => {
+  it('should store results that fit inline', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+
+    const output = addChunked(outputs, 'summary', { result: 'Short' }, { maxBytes: 10 });
+    await outputs.commit();
+
+    expect(fake.created).toHaveLength(1);
+    expect(output.chunks).toEqual([]);
+    expect(fake.stored(output.id!)?.properties).toEqual({ result: 'Short' });
+    expect(await readChunked(fake.job, output.id!)).toBe('Short');
+  });
+
+  it('should split large results into linked chunks', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+    const result = 'x'.repeat(25);
+
+    const output = addChunked(outputs, 'summary', { result, source_id: 'ent_1' }, { maxBytes: 10 });
+    output.derivedFrom(target);
+    const outputIds = await outputs.commit();
+
+    const stored = fake.stored(output.id!)!;
+    expect(stored.properties).toEqual({
+      source_id: 'ent_1',
+      chunked: { field: 'result', count: 3, bytes: 25, chunk_type: CHUNK_TYPE },
+    });
+
+    const chunkIds = outputIds.slice(1);
+    expect(output.chunks.map((chunk) => chunk.id)).toEqual(chunkIds);
+    const chunks = chunkIds.map((id) => fake.stored(id)!);
+    expect(chunks.map((c) => c.type)).toEqual([CHUNK_TYPE, CHUNK_TYPE, CHUNK_TYPE]);
+    expect(chunks.map((c) => c.properties)).toEqual([
+      { index: 0, result: 'x'.repeat(10) },
+      { index: 1, result: 'x'.repeat(10) },
+      { index: 2, result: 'x'.repeat(5) },
+    ]);
+
+    const peers = (id: string, predicate: string) =>
+      (fake.stored(id)!.relationships as Array<{ predicate: string; peer: string }>)
+        .filter((rel) => rel.predicate === predicate)
+        .map((rel) => rel.peer);
+    expect(peers(output.id!, 'has_part')).toEqual(chunkIds);
+    expect(chunkIds.flatMap((id) => peers(id, 'part_of'))).toEqual([
+      output.id,
+      output.id,
+      output.id,
+    ]);
+    expect(chunkIds.map((id) => peers(id, 'next'))).toEqual([[chunkIds[1]], [chunkIds[2]], []]);
+
+    expect(await readChunked(fake.job, output.id!)).toBe(result);
+  });
+
+  it('should chunk another field when asked', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder<OutputProperties & { transcript?: string }>(fake.job);
+    const transcript = 'hello world, '.repeat(4);
+
+    const output = addChunked(
+      outputs,
+      'transcript',
+      { result: 'summary', transcript },
+      { field: 'transcript', maxBytes: 16 }
+    );
+    await outputs.commit();
+
+    expect(await readChunked(fake.job, output.id!, 'transcript')).toBe(transcript);
+    expect(await readChunked(fake.job, output.id!)).toBe(transcript);
+    expect(await readChunked(fake.job, output.id!, 'result')).toBe('summary');
+  });
+
+  it('should leave only the chunks out of the committed IDs', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+
+    const output = addChunked(outputs, 'summary', { result: 'z'.repeat(30) }, { maxBytes: 10 });
+    const extra = outputs.add('summary', { result: 'Extra' });
+    const committed = await outputs.commit();
+
+    const chunkIds = new Set(output.chunks.map((chunk) => chunk.id));
+    expect(committed).toHaveLength(5);
+    expect(committed.filter((id) => !chunkIds.has(id))).toEqual([output.id, extra.id]);
+  });
+});
+
+describe('readChunked', () => {
+  it('should fail when a chunk is missing', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+    const output = addChunked(outputs, 'summary', { result: 'y'.repeat(30) }, { maxBytes: 10 });
+    const [, , second] = await outputs.commit();
+
+    await fake.job.client.api.DELETE('/entities/{id}', { params: { path: { id: second } } });
+
+    await expect(readChunked(fake.job, output.id!)).rejects.toThrow(/Failed to fetch entity/);
+  });
+
+  it('should fail when the chunks are incomplete', async () => {
+    const fake = createFakeJob({ target });
+    const output = {
+      id: 'out_9',
+      properties: { chunked: { field: 'result', count: 2, bytes: 4, chunk_type: CHUNK_TYPE } },
+      relationships: [],
+    };
+
+    await expect(readChunked(fake.job, output)).rejects.toThrow('missing chunks 0, 1 of 2');
+  });
+});
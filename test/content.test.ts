@@ -0,0 +1,204 @@
+/// <reference types="node" />
+/**
+ * Unit tests for content loading
+ *
+ * Downloads from a local HTTP stub, so limits, decoding and failures are
+ * exercised against real responses without network access.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { loadUrl, loadTargetContent, sniffMimeType } from '../src/content';
+import { BUDGET_EXHAUSTED, createBudget, trackBudget } from '../src/budget';
+import { createFakeJob } from './support/fake-job';
+
+// =============================================================================
+// HTTP stub
+// =============================================================================
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case '/text':
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Hello, world');
+        break;
+      case '/latin1':
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=iso-8859-1' });
+        res.end(Buffer.from([0x63, 0x61, 0x66, 0xe9]));
+        break;
+      case '/pdf':
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(Buffer.from('%PDF-1.7\n%binary'));
+        break;
+      case '/declared-large':
+        res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Length': '2048' });
+        res.end(Buffer.alloc(2048, 'a'));
+        break;
+      case '/chunked':
+        // No Content-Length: only the streaming cap can stop it
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        for (let i = 0; i < 4; i++) res.write(Buffer.alloc(512, 'a'));
+        res.end();
+        break;
+      case '/slow':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.write('partial');
+        break;
+      case '/missing':
+        res.writeHead(404);
+        res.end();
+        break;
+      default:
+        res.writeHead(503);
+        res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('loadUrl', () => {
+  it('should download and decode text', async () => {
+    const content = await loadUrl(`${base}/text`);
+
+    expect(content).toMatchObject({
+      source: `${base}/text`,
+      mimeType: 'text/plain',
+      charset: 'utf-8',
+      size: 12,
+      text: 'Hello, world',
+    });
+  });
+
+  it('should decode using the declared charset', async () => {
+    const content = await loadUrl(`${base}/latin1`);
+    expect(content.text).toBe('café');
+  });
+
+  it('should sniff the type of generic binary responses', async () => {
+    const content = await loadUrl(`${base}/pdf`);
+
+    expect(content.mimeType).toBe('application/pdf');
+    expect(content.text).toBeUndefined();
+  });
+
+  it('should reject content over the declared size limit', async () => {
+    await expect(loadUrl(`${base}/declared-large`, { maxBytes: 1024 })).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      message: expect.stringContaining('exceeds the 1024 byte limit'),
+    });
+  });
+
+  it('should stop reading once the stream passes the byte cap', async () => {
+    await expect(loadUrl(`${base}/chunked`, { maxBytes: 1024 })).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+    });
+  });
+
+  it('should reject unsupported types', async () => {
+    await expect(loadUrl(`${base}/pdf`, { accept: ['text/*'] })).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      message: expect.stringContaining('Unsupported content type application/pdf'),
+    });
+  });
+
+  it('should reject unsupported URL schemes', async () => {
+    await expect(loadUrl('ftp://example.com/file.txt')).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+    });
+  });
+
+  it('should classify HTTP errors', async () => {
+    await expect(loadUrl(`${base}/missing`)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      retryable: false,
+    });
+    await expect(loadUrl(`${base}/unavailable`)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      retryable: true,
+    });
+  });
+
+  it('should time out when the body never completes', async () => {
+    await expect(loadUrl(`${base}/slow`, { timeoutMs: 200 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+  });
+
+  it('should report unreachable hosts as network errors', async () => {
+    await expect(loadUrl('http://127.0.0.1:1/')).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      retryable: true,
+    });
+  });
+});
+
+describe('loadTargetContent', () => {
+  it('should load the url of a target', async () => {
+    const target = { id: 'ent_1', type: 'page', properties: { url: `${base}/text` } };
+    const content = await loadTargetContent(createFakeJob({ target }).job, target);
+
+    expect(content.text).toBe('Hello, world');
+  });
+
+  it("should charge url downloads to the job's budget", async () => {
+    const target = { id: 'ent_1', type: 'page', properties: { url: `${base}/text` } };
+    const { job } = createFakeJob({ target });
+    const budget = createBudget({ maxSubrequests: 1, maxDurationMs: 60_000 });
+    const stop = trackBudget(job, budget);
+
+    try {
+      await loadTargetContent(job, target);
+      expect(budget.subrequests).toBe(1);
+      await expect(loadTargetContent(job, target)).rejects.toMatchObject({
+        reason: BUDGET_EXHAUSTED,
+      });
+    } finally {
+      stop();
+    }
+  });
+
+  it('should fall back to inline content', async () => {
+    const target = { id: 'ent_1', type: 'note', properties: { content: 'Inline' } };
+    const content = await loadTargetContent(createFakeJob({ target }).job, target);
+
+    expect(content).toMatchObject({
+      source: 'entity:ent_1',
+      mimeType: 'text/plain',
+      text: 'Inline',
+    });
+  });
+
+  it('should fail for targets without content', async () => {
+    const target = { id: 'ent_1', type: 'note', properties: { title: 'Empty' } };
+
+    await expect(loadTargetContent(createFakeJob({ target }).job, target)).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+    });
+  });
+});
+
+describe('sniffMimeType', () => {
+  it('should recognize text, JSON and binary', () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+
+    expect(sniffMimeType(encode('plain words'))).toBe('text/plain');
+    expect(sniffMimeType(encode('{"a": 1}'))).toBe('application/json');
+    expect(sniffMimeType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d]))).toBe('image/png');
+    expect(sniffMimeType(new Uint8Array([0x00, 0x01, 0x02]))).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for idempotent job execution
+ *
+ * Runs jobs on the fake KladosJob with job records in an in-memory KV.
+ * isResumable is checked directly against records of each status.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getJobRecord,
+  isResumable,
+  recordAccepted,
+  runTracked,
+  type JobRecord,
+  type JobStatus,
+} from '../src/idempotency';
+import { createFakeJob } from './support/fake-job';
+import { createFakeKV } from './support/fake-kv';
+
+describe('runTracked', () => {
+  it('should record a handed-off job as done', async () => {
+    const kv = createFakeKV();
+    const fake = createFakeJob();
+    const record = await recordAccepted(kv, fake.job, null);
+
+    await runTracked(kv, record, fake.job, async () => ['out_1']);
+
+    expect(await getJobRecord(kv, fake.request.job_id)).toMatchObject({
+      status: 'done',
+      output_ids: ['out_1'],
+    });
+  });
+
+  it('should record a failed handoff as failed and keep the outputs', async () => {
+    const kv = createFakeKV();
+    const fake = createFakeJob({
+      onHandoff: async () => {
+        throw new Error('Handoff failed');
+      },
+    });
+    const record = await recordAccepted(kv, fake.job, null);
+
+    await expect(runTracked(kv, record, fake.job, async () => ['out_1'])).rejects.toThrow(
+      'Handoff failed'
+    );
+
+    const stored = (await getJobRecord(kv, fake.request.job_id))!;
+    expect(stored).toMatchObject({
+      status: 'failed',
+      error: 'Handoff failed',
+      output_ids: ['out_1'],
+    });
+    expect(isResumable(stored)).toBe(true);
+  });
+
+  it('should only repeat the handoff when resumed', async () => {
+    const kv = createFakeKV();
+    const handedOff: string[][] = [];
+    const fake = createFakeJob({ onHandoff: async (ids) => void handedOff.push(ids) });
+    const first = await recordAccepted(kv, fake.job, null);
+    const prior = { ...first, status: 'failed' as const, output_ids: ['out_1'] };
+    const record = await recordAccepted(kv, fake.job, prior);
+
+    await runTracked(kv, record, fake.job, () => {
+      throw new Error('Should not process again');
+    });
+
+    expect(handedOff).toEqual([['out_1']]);
+    expect((await getJobRecord(kv, fake.request.job_id))?.status).toBe('done');
+  });
+});
+
+describe('isResumable', () => {
+  const now = Date.parse('2026-01-01T12:00:00Z');
+  const record = (status: JobStatus, minutesAgo = 0): JobRecord => {
+    const at = new Date(now - minutesAgo * 60 * 1000).toISOString();
+    return { job_id: 'job_1', status, accept_response: {}, created_at: at, updated_at: at };
+  };
+
+  it('should leave fresh in-flight jobs alone', () => {
+    expect(isResumable(record('accepted', 1), now)).toBe(false);
+    expect(isResumable(record('running', 1), now)).toBe(false);
+  });
+
+  it('should resume in-flight jobs that stopped updating', () => {
+    expect(isResumable(record('accepted', 10), now)).toBe(true);
+    expect(isResumable(record('running', 10), now)).toBe(true);
+  });
+
+  it('should resume failed jobs and jobs not yet handed off', () => {
+    expect(isResumable(record('failed'), now)).toBe(true);
+    expect(isResumable(record('processed'), now)).toBe(true);
+  });
+
+  it('should never resume done or cancelled jobs, however old', () => {
+    expect(isResumable(record('done', 60), now)).toBe(false);
+    expect(isResumable(record('cancelled', 60), now)).toBe(false);
+  });
+});
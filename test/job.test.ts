@@ -0,0 +1,140 @@
+/**
+ * Unit tests for processJob
+ *
+ * Runs the job logic against a fake KladosJob (see test/support/fake-job.ts),
+ * so business logic and error paths can be tested without any API.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { processJob } from '../src/job';
+import { createJobContext } from '../src/context';
+import { createBudget, BUDGET_EXHAUSTED } from '../src/budget';
+import { createResultCache } from '../src/cache';
+import { createFakeKV } from './support/fake-kv';
+import { createFakeJob, type FakeTarget } from './support/fake-job';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const target: FakeTarget = {
+  id: 'ent_1',
+  type: 'test_entity',
+  properties: { title: 'Test Entity', content: 'Some content' },
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('processJob', () => {
+  it('should create an output derived from the target', async () => {
+    const fake = createFakeJob({ target });
+
+    const outputIds = await processJob(fake.job);
+
+    const output = fake.expectCreated({
+      type: 'processed_output',
+      properties: { source_id: 'ent_1' },
+    });
+    expect(outputIds).toEqual([output.id]);
+    expect(output.collection).toBe(fake.request.target_collection);
+    expect(output.relationships).toContainEqual({
+      predicate: 'derived_from',
+      peer: 'ent_1',
+      peer_type: 'test_entity',
+    });
+    fake.expectLog('success', 'Created output entity');
+  });
+
+  it('should never write into job_collection', async () => {
+    const fake = createFakeJob({ target });
+
+    await processJob(fake.job);
+
+    expect(fake.created.every((e) => e.collection !== fake.request.job_collection)).toBe(true);
+  });
+
+  it('should fail when the output entity cannot be created', async () => {
+    const fake = createFakeJob({
+      target,
+      onCreate: () => ({ error: { error: 'Forbidden', status: 403 } }),
+    });
+
+    await expect(processJob(fake.job)).rejects.toThrow('Failed to create output entity');
+    expect(fake.created).toHaveLength(0);
+  });
+
+  it('should propagate target fetch failures', async () => {
+    const fake = createFakeJob({
+      target: async () => {
+        throw new Error('Entity not found');
+      },
+    });
+
+    await expect(processJob(fake.job)).rejects.toThrow('Entity not found');
+    expect(fake.calls).not.toContain('POST /entities');
+  });
+
+  it('should process target_entities in batch mode and report failures', async () => {
+    const fake = createFakeJob({
+      entities: [
+        { id: 'ent_a', type: 'test_entity', properties: { title: 'A' } },
+        { id: 'ent_b', type: 'test_entity', properties: { title: 'B' } },
+        { id: 'ent_c', type: 'test_entity', properties: { title: 'C' } },
+      ],
+      request: { target_entities: ['ent_a', 'ent_b', 'ent_c', 'ent_missing'] },
+    });
+
+    const outputIds = await processJob(fake.job);
+
+    expect(outputIds).toHaveLength(3);
+    fake.expectLog('error', 'Failed to process ent_missing');
+    fake.expectLog('warning', 'Batch completed with failures');
+  });
+
+  it('should fail with a budget error instead of starting work it cannot finish', async () => {
+    const fake = createFakeJob({ target });
+    const ctx = createJobContext({
+      budget: createBudget({ maxSubrequests: 10, maxDurationMs: 0 }),
+    });
+
+    await expect(processJob(fake.job, ctx)).rejects.toMatchObject({
+      code: 'PROCESSING_ERROR',
+      reason: BUDGET_EXHAUSTED,
+      retryable: false,
+    });
+    expect(fake.created).toHaveLength(0);
+  });
+
+  it('should reuse cached results for unchanged inputs', async () => {
+    const ctx = createJobContext({
+      cache: createResultCache(createFakeKV(), { version: '1.0.0' }),
+    });
+
+    const first = createFakeJob({ target });
+    await processJob(first.job, ctx);
+    // Properties outside CACHE_KEY_PROPERTIES don't affect the cache key
+    const second = createFakeJob({
+      target: { ...target, properties: { ...target.properties, views: 10 } },
+    });
+    await processJob(second.job, ctx);
+
+    expect(first.messages('info')).not.toContain('Cache hit, reusing previous result');
+    second.expectLog('info', 'Cache hit');
+    expect(second.created[0].properties.result).toBe(first.created[0].properties.result);
+  });
+
+  it('should not reuse results across entities with the same properties', async () => {
+    const ctx = createJobContext({
+      cache: createResultCache(createFakeKV(), { version: '1.0.0' }),
+    });
+
+    await processJob(createFakeJob({ target }).job, ctx);
+    const other = createFakeJob({ target: { ...target, id: 'ent_2' } });
+    await processJob(other.job, ctx);
+
+    expect(other.messages('info')).not.toContain('Cache hit, reusing previous result');
+    expect(other.created[0].properties.result).toContain('ent_2');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for hosting several kladoi in one worker
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  KLADOI,
+  describeKlados,
+  hostKlados,
+  resolveKlados,
+  scopedSecret,
+  scopedVar,
+  type KladosDefinition,
+} from '../src/kladoi';
+import { MANIFEST } from '../src/manifest';
+import { app } from '../src/index';
+import { signRequest } from '../src/auth';
+import type { Env } from '../src/types';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const env = {
+  AGENT_ID: 'klados_default',
+  AGENT_ID_MAIN: 'klados_default_main',
+  AGENT_VERSION: '1.0.0',
+  ARKE_AGENT_KEY: 'ak_default',
+  AGENT_ID_SUMMARIZER_TEST: 'klados_summarizer_test',
+  AGENT_ID_SUMMARIZER_MAIN: 'klados_summarizer_main',
+  ARKE_AGENT_KEY_SUMMARIZER_TEST: 'ak_summarizer_test',
+  VERIFICATION_TOKEN_SUMMARIZER: 'vt_summarizer',
+} as Env;
+
+const summarizer: KladosDefinition = {
+  name: 'summarizer',
+  agent: {
+    label: 'Summarizer',
+    endpoint: 'https://worker.example',
+    actions_required: ['entity:view'],
+    accepts: { types: ['document'], cardinality: 'one' },
+    produces: { types: ['summary'], cardinality: 'one' },
+  },
+  processJob: async () => [],
+};
+
+/**
+ * Secrets as registration leaves them for each klados: written under the
+ * names scripts/register.ts stores them, then read back into env
+ */
+function registerKladoi(names: string[]): Env {
+  const secrets: Record<string, string> = {};
+  for (const name of names) {
+    const store = (secret: string, value: string) => {
+      secrets[name === 'default' ? secret : scopedSecret(name, secret)] = value;
+    };
+    store('VERIFICATION_TOKEN', `vt_${name}`);
+    store('ARKE_VERIFY_AGENT_ID', `klados_${name}`);
+    store('ARKE_AGENT_KEY_TEST', `ak_${name}`);
+  }
+  return { AGENT_ID: '', AGENT_VERSION: '1.0.0', ARKE_AGENT_KEY: '', ...secrets } as Env;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('kladoi', () => {
+  afterEach(() => {
+    KLADOI.splice(1);
+  });
+
+  it('should name scoped variables after the klados', () => {
+    expect(scopedVar('summarizer', 'AGENT_ID', '_TEST')).toBe('AGENT_ID_SUMMARIZER_TEST');
+    expect(scopedVar('pdf-text', 'ARKE_AGENT_KEY')).toBe('ARKE_AGENT_KEY_PDF_TEXT');
+  });
+
+  it('should host the kladoi listed in kladoi.json, in order', () => {
+    expect(KLADOI.map((klados) => klados.name)).toEqual(MANIFEST.map((entry) => entry.name));
+    expect(MANIFEST[0].agent).toBe('agent.json');
+  });
+
+  it('should give the primary klados env unchanged', () => {
+    expect(hostKlados(env, KLADOI[0]).env).toBe(env);
+  });
+
+  it('should give other kladoi their own IDs and keys, without the primary fallback', () => {
+    const hosted = hostKlados(env, summarizer);
+
+    expect(hosted.env).toMatchObject({
+      AGENT_ID: '',
+      AGENT_ID_TEST: 'klados_summarizer_test',
+      AGENT_ID_MAIN: 'klados_summarizer_main',
+      ARKE_AGENT_KEY: '',
+      ARKE_AGENT_KEY_TEST: 'ak_summarizer_test',
+      VERIFICATION_TOKEN: 'vt_summarizer',
+      AGENT_VERSION: '1.0.0',
+    });
+    expect(hosted.env.CACHE_SALT).toBe('summarizer:');
+  });
+
+  it('should route everything to the primary when it is the only klados', () => {
+    expect(resolveKlados(env, { klados_id: 'klados_unknown' })?.name).toBe('default');
+  });
+
+  it('should route requests by klados_id and network', () => {
+    KLADOI.push(summarizer);
+
+    expect(resolveKlados(env, {})?.name).toBe('default');
+    expect(resolveKlados(env, { klados_id: 'klados_default' })?.name).toBe('default');
+    expect(resolveKlados(env, { klados_id: 'klados_summarizer_test' })?.name).toBe('summarizer');
+    expect(
+      resolveKlados(env, { klados_id: 'klados_summarizer_main', network: 'main' })?.name
+    ).toBe('summarizer');
+    // IDs are per network
+    expect(resolveKlados(env, { klados_id: 'klados_summarizer_main' })).toBeUndefined();
+    expect(resolveKlados(env, { klados_id: 'klados_unknown' })).toBeUndefined();
+  });
+
+  it("should store each klados's registration secrets under its own names", () => {
+    expect(scopedSecret('summarizer', 'VERIFICATION_TOKEN')).toBe('VERIFICATION_TOKEN_SUMMARIZER');
+    expect(scopedSecret('summarizer', 'ARKE_VERIFY_AGENT_ID')).toBe(
+      'ARKE_VERIFY_AGENT_ID_SUMMARIZER'
+    );
+    expect(scopedSecret('summarizer', 'ARKE_AGENT_KEY_MAIN')).toBe(
+      'ARKE_AGENT_KEY_SUMMARIZER_MAIN'
+    );
+    expect(scopedSecret('summarizer', 'OTHER_SECRET')).toBe('OTHER_SECRET');
+  });
+
+  it('should verify two registered kladoi at their own endpoints', async () => {
+    KLADOI.push(summarizer);
+    const registered = registerKladoi(['default', 'summarizer']);
+
+    const verify = async (path: string) => {
+      const res = await app.request(path, {}, registered);
+      return { status: res.status, body: await res.json() };
+    };
+
+    expect(await verify('/.well-known/arke-verification')).toEqual({
+      status: 200,
+      body: { verification_token: 'vt_default', klados_id: 'klados_default' },
+    });
+    expect(await verify('/kladoi/summarizer/.well-known/arke-verification')).toEqual({
+      status: 200,
+      body: { verification_token: 'vt_summarizer', klados_id: 'klados_summarizer' },
+    });
+    expect((await verify('/kladoi/unknown/.well-known/arke-verification')).status).toBe(404);
+  });
+
+  it("should refuse jobs for another klados at a klados's endpoint", async () => {
+    KLADOI.push(summarizer);
+    const signed = { ...env, ARKE_SIGNING_SECRET: 'secret_test' } as Env;
+    const path = '/kladoi/summarizer/process';
+    const body = JSON.stringify({ job_id: 'job_1', klados_id: 'klados_default' });
+
+    const res = await app.request(
+      path,
+      {
+        method: 'POST',
+        body,
+        headers: await signRequest('secret_test', { method: 'POST', path, body }),
+      },
+      signed
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should describe a klados by its IDs on each network', () => {
+    expect(describeKlados(hostKlados(env, summarizer))).toEqual({
+      name: 'summarizer',
+      label: 'Summarizer',
+      klados_ids: { test: 'klados_summarizer_test', main: 'klados_summarizer_main' },
+    });
+  });
+});
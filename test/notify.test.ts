@@ -0,0 +1,191 @@
+/**
+ * Unit tests for job notifications
+ *
+ * Builds events from the fake KladosJob and delivers them to a scripted
+ * fetch and an in-memory queue.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  jobEvent,
+  notifyJob,
+  EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type JobEvent,
+} from '../src/notify';
+import { verifySignature } from '../src/auth';
+import { renderMetrics, resetLocalMetrics } from '../src/metrics';
+import { createFakeJob } from './support/fake-job';
+import type { Env } from '../src/types';
+
+const WEBHOOK_URL = 'https://hooks.test/klados';
+const SECRET = 'webhook-secret';
+
+const BASE_ENV: Env = {
+  AGENT_ID: 'klados_test',
+  AGENT_VERSION: '0.0.0',
+  ARKE_AGENT_KEY: 'ak_test',
+};
+
+const EVENT: JobEvent = {
+  type: 'job.completed',
+  job_id: 'job_1',
+  klados_id: 'klados_test',
+  network: 'test',
+  target_entity: 'ent_1',
+  target_collection: 'col_target',
+  job_collection: 'col_job',
+  status: 'done',
+  output_ids: ['ent_2'],
+  duration_ms: 120,
+  timestamp: new Date().toISOString(),
+};
+
+/**
+ * fetch that answers with the given statuses in turn (the last one repeats)
+ */
+function scriptedFetch(...statuses: number[]) {
+  const requests: Request[] = [];
+  const fetcher = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    const status = statuses[Math.min(requests.length, statuses.length) - 1];
+    return new Response(null, { status });
+  });
+  return { fetch: fetcher as unknown as typeof fetch, requests };
+}
+
+function fakeQueue(failures = 0) {
+  const sent: unknown[] = [];
+  let attempts = 0;
+  const queue = {
+    send: async (body: unknown) => {
+      attempts += 1;
+      if (attempts <= failures) throw new Error('Queue unavailable');
+      sent.push(body);
+    },
+  } as unknown as Queue<JobEvent>;
+  return { queue, sent };
+}
+
+describe('jobEvent', () => {
+  it('should describe a completed job', () => {
+    const fake = createFakeJob({ request: { target_entity: 'ent_1' } });
+    const event = jobEvent(fake.job, BASE_ENV, { outputIds: ['ent_2'] }, 250);
+
+    expect(event).toMatchObject({
+      type: 'job.completed',
+      job_id: fake.job.request.job_id,
+      klados_id: 'klados_test',
+      target_entity: 'ent_1',
+      status: 'done',
+      output_ids: ['ent_2'],
+      duration_ms: 250,
+    });
+    expect(event.error).toBeUndefined();
+  });
+
+  it('should carry the error code of a failed job', () => {
+    const fake = createFakeJob();
+    const error = Object.assign(new Error('Target not found'), { code: 'NOT_FOUND' });
+    const event = jobEvent(fake.job, BASE_ENV, { error }, 40);
+
+    expect(event.type).toBe('job.failed');
+    expect(event.status).toBe('failed');
+    expect(event.output_ids).toEqual([]);
+    expect(event.error).toEqual({ code: 'NOT_FOUND', message: 'Target not found' });
+  });
+});
+
+describe('notifyJob', () => {
+  beforeEach(() => {
+    resetLocalMetrics();
+  });
+
+  it('should POST a signed event to the webhook', async () => {
+    const { fetch, requests } = scriptedFetch(200);
+    const env = { ...BASE_ENV, NOTIFY_WEBHOOK_URL: WEBHOOK_URL, NOTIFY_WEBHOOK_SECRET: SECRET };
+
+    expect(await notifyJob(env, EVENT, { fetch })).toEqual(['webhook']);
+
+    const [request] = requests;
+    const body = await request.text();
+    expect(request.url).toBe(WEBHOOK_URL);
+    expect(request.headers.get(EVENT_HEADER)).toBe('job.completed');
+    expect(JSON.parse(body)).toEqual(EVENT);
+    expect(
+      await verifySignature(
+        SECRET,
+        { method: 'POST', path: '/klados', body },
+        request.headers.get(WEBHOOK_TIMESTAMP_HEADER) ?? undefined,
+        request.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? undefined
+      )
+    ).toBeNull();
+  });
+
+  it('should retry transient webhook failures', async () => {
+    const { fetch, requests } = scriptedFetch(503, 500, 200);
+    const env = { ...BASE_ENV, NOTIFY_WEBHOOK_URL: WEBHOOK_URL };
+
+    expect(await notifyJob(env, EVENT, { fetch, baseDelayMs: 1 })).toEqual(['webhook']);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should give up without throwing', async () => {
+    const rejected = scriptedFetch(400);
+    const env = { ...BASE_ENV, NOTIFY_WEBHOOK_URL: WEBHOOK_URL };
+    expect(await notifyJob(env, EVENT, { fetch: rejected.fetch, baseDelayMs: 1 })).toEqual([]);
+    expect(rejected.requests).toHaveLength(1);
+
+    const down = scriptedFetch(503);
+    expect(
+      await notifyJob({ ...env, NOTIFY_MAX_ATTEMPTS: '2' }, EVENT, {
+        fetch: down.fetch,
+        baseDelayMs: 1,
+      })
+    ).toEqual([]);
+    expect(down.requests).toHaveLength(2);
+    expect(await renderMetrics(env)).toContain(
+      'klados_notifications_failed_total{channel="webhook",type="job.completed"} 2'
+    );
+  });
+
+  it('should time out webhook requests that never answer', async () => {
+    const hanging = vi.fn(
+      (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+    const env = { ...BASE_ENV, NOTIFY_WEBHOOK_URL: WEBHOOK_URL, NOTIFY_MAX_ATTEMPTS: '2' };
+
+    const delivered = await notifyJob(env, EVENT, {
+      fetch: hanging as unknown as typeof fetch,
+      baseDelayMs: 1,
+      timeoutMs: 10,
+    });
+
+    expect(delivered).toEqual([]);
+    expect(hanging).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send to the queue, retrying failed sends', async () => {
+    const { queue, sent } = fakeQueue(1);
+
+    expect(
+      await notifyJob({ ...BASE_ENV, NOTIFY_QUEUE: queue }, EVENT, { baseDelayMs: 1 })
+    ).toEqual(['queue']);
+    expect(sent).toEqual([EVENT]);
+  });
+
+  it('should only send the event types in NOTIFY_EVENTS', async () => {
+    const { queue, sent } = fakeQueue();
+    const env = { ...BASE_ENV, NOTIFY_QUEUE: queue, NOTIFY_EVENTS: 'job.failed, job.cancelled' };
+
+    expect(await notifyJob(env, EVENT)).toEqual([]);
+    expect(await notifyJob(env, { ...EVENT, type: 'job.failed', status: 'failed' })).toEqual([
+      'queue',
+    ]);
+    expect(sent).toHaveLength(1);
+  });
+});
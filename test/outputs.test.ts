@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the output builder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createOutputBuilder } from '../src/outputs';
+import { cancelJob, isCancellation, trackCancellation } from '../src/cancellation';
+import { createBudget, isBudgetExhausted, trackBudget } from '../src/budget';
+import { createFakeJob, type FakeTarget } from './support/fake-job';
+
+const target: FakeTarget = {
+  id: 'ent_1',
+  type: 'test_entity',
+  properties: { title: 'Test Entity' },
+};
+
+describe('createOutputBuilder', () => {
+  it('should create outputs in order with relationships resolved', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+
+    const summary = outputs.add('summary', { result: 'Short' }).derivedFrom(target);
+    outputs.add('chunk', { result: 'Part 1' }).partOf(summary).relate('mentions', 'ent_2');
+
+    const outputIds = await outputs.commit();
+
+    expect(outputIds).toEqual([summary.id, fake.created[1].id]);
+    expect(fake.created[0].relationships).toEqual([
+      { predicate: 'derived_from', peer: 'ent_1', peer_type: 'test_entity' },
+    ]);
+    expect(fake.created[1].relationships).toEqual([
+      { predicate: 'part_of', peer: summary.id, peer_type: 'summary' },
+      { predicate: 'mentions', peer: 'ent_2' },
+    ]);
+    expect(fake.created.every((e) => e.collection === fake.request.target_collection)).toBe(true);
+  });
+
+  it('should roll back created outputs when a later write fails', async () => {
+    const fake = createFakeJob({
+      target,
+      onCreate: (_body, attempt) =>
+        attempt === 3 ? { error: { error: 'Forbidden', status: 403 } } : undefined,
+    });
+    const outputs = createOutputBuilder(fake.job);
+    outputs.add('chunk', { result: '1' });
+    outputs.add('chunk', { result: '2' });
+    outputs.add('chunk', { result: '3' });
+
+    await expect(outputs.commit()).rejects.toThrow('Failed to create output entity');
+
+    expect(fake.calls.filter((call) => call.startsWith('DELETE'))).toEqual([
+      `DELETE /entities/${fake.created[1].id}`,
+      `DELETE /entities/${fake.created[0].id}`,
+    ]);
+    expect(fake.created.map((e) => fake.stored(e.id))).toEqual([undefined, undefined]);
+  });
+
+  it('should roll back outputs when the job is cancelled during commit', async () => {
+    const fake = createFakeJob({
+      target,
+      onCreate: (_body, attempt) => {
+        if (attempt === 2) void cancelJob(fake.request.job_id);
+        return undefined;
+      },
+    });
+    const cancellation = trackCancellation(fake.job);
+    const outputs = createOutputBuilder(fake.job);
+    outputs.add('chunk', { result: '1' });
+    outputs.add('chunk', { result: '2' });
+    outputs.add('chunk', { result: '3' });
+
+    const error = await outputs.commit().catch((err: unknown) => err);
+    cancellation.dispose();
+
+    expect(isCancellation(error)).toBe(true);
+    expect(fake.created).toHaveLength(2);
+    expect(fake.created.map((e) => fake.stored(e.id))).toEqual([undefined, undefined]);
+  });
+
+  it('should roll back outputs when the budget runs out during commit', async () => {
+    const fake = createFakeJob({ target });
+    const stopBudget = trackBudget(
+      fake.job,
+      createBudget({ maxSubrequests: 1, maxDurationMs: 60_000 })
+    );
+    const outputs = createOutputBuilder(fake.job);
+    outputs.add('chunk', { result: '1' });
+    outputs.add('chunk', { result: '2' });
+
+    const error = await outputs.commit().catch((err: unknown) => err);
+    stopBudget();
+
+    expect(isBudgetExhausted(error)).toBe(true);
+    expect(fake.created).toHaveLength(1);
+    expect(fake.stored(fake.created[0].id)).toBeUndefined();
+  });
+
+  it('should refuse to write into job_collection', () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+
+    expect(() =>
+      outputs.add('summary', { result: 'x' }, { collection: fake.request.job_collection })
+    ).toThrow('job_collection');
+  });
+
+  it('should relate to outputs added later once they exist', async () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+    const first = outputs.add('chunk', { result: '1' });
+    const second = outputs.add('chunk', { result: '2' }).partOf(first);
+    first.relate('next', second);
+
+    await outputs.commit();
+
+    expect(fake.created[0].relationships).toEqual([]);
+    expect(fake.stored(first.id!)?.relationships).toEqual([
+      { predicate: 'next', peer: second.id, peer_type: 'chunk' },
+    ]);
+    expect(fake.calls.filter((call) => call.startsWith('PUT'))).toEqual([
+      `PUT /entities/${first.id}`,
+    ]);
+  });
+
+  it('should not relate an output to itself', () => {
+    const fake = createFakeJob({ target });
+    const outputs = createOutputBuilder(fake.job);
+    const output = outputs.add('chunk', { result: '1' });
+
+    expect(() => output.relate('next', output)).toThrow('itself');
+  });
+});
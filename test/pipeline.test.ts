@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the step pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KladosErrorCode, createKladosError } from '@arke-institute/rhiza';
+import { createPipeline, step } from '../src/pipeline';
+import { createJobContext } from '../src/context';
+import { templatePipeline } from '../src/job';
+import { createFakeJob } from './support/fake-job';
+import type { JobPhase } from '../src/types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function setup() {
+  const fake = createFakeJob({
+    target: { id: 'ent_1', type: 'test_entity', properties: { title: 'Test Entity' } },
+  });
+  const phases: JobPhase[] = [];
+  const ctx = createJobContext({ phase: (phase) => phases.push(phase) });
+  return { fake, phases, sc: { job: fake.job, ctx } };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('createPipeline', () => {
+  it('should pass each step the previous output, reporting phases', async () => {
+    const { fake, phases, sc } = setup();
+    const pipeline = createPipeline<number>()
+      .then(step('double', (n: number) => n * 2, { phase: 'processing' }))
+      .then(step('format', async (n: number) => `result ${n}`, { phase: 'creating_outputs' }));
+
+    expect(pipeline.steps).toEqual(['double', 'format']);
+    expect(await pipeline.run(21, sc)).toBe('result 42');
+    expect(phases).toEqual(['processing', 'creating_outputs']);
+    expect(fake.messages('info')).toEqual([
+      'Step double started',
+      'Step double finished',
+      'Step format started',
+      'Step format finished',
+    ]);
+    expect(fake.expectLog('info', 'Step double finished').metadata).toHaveProperty('durationMs');
+  });
+
+  it('should run pipeline and step hooks around each step', async () => {
+    const { sc } = setup();
+    const calls: string[] = [];
+    const pipeline = createPipeline<number>().then(
+      step('inc', (n: number) => n + 1, {
+        before: (n) => void calls.push(`step before ${n}`),
+        after: (n) => void calls.push(`step after ${n}`),
+      })
+    );
+
+    await pipeline.run(1, sc, {
+      before: (name, input) => void calls.push(`before ${name} ${input}`),
+      after: (name, output) => void calls.push(`after ${name} ${output}`),
+    });
+
+    expect(calls).toEqual(['before inc 1', 'step before 1', 'step after 2', 'after inc 2']);
+  });
+
+  it('should record which step failed, keeping the error code', async () => {
+    const { fake, sc } = setup();
+    const errors: unknown[] = [];
+    const pipeline = createPipeline<string>()
+      .then(step('load', (id: string) => id))
+      .then(
+        step('check', () => {
+          throw Object.assign(createKladosError(KladosErrorCode.TIMEOUT, 'Too slow'), {
+            retryable: true,
+          });
+        })
+      )
+      .then(step('never', () => 'unreachable'));
+
+    await expect(
+      pipeline.run('ent_1', sc, { error: (_, err) => void errors.push(err) })
+    ).rejects.toMatchObject({
+      code: KladosErrorCode.TIMEOUT,
+      message: 'Step check failed: Too slow',
+      step: 'check',
+      retryable: true,
+    });
+    expect(errors).toHaveLength(1);
+    fake.expectLog('error', 'Step check failed');
+    expect(fake.messages('info')).not.toContain('Step never started');
+  });
+
+  it('should wrap plain errors as PROCESSING_ERROR', async () => {
+    const { sc } = setup();
+    const pipeline = createPipeline<void>().then(
+      step('boom', () => {
+        throw new Error('Kaboom');
+      })
+    );
+
+    await expect(pipeline.run(undefined, sc)).rejects.toMatchObject({
+      code: KladosErrorCode.PROCESSING_ERROR,
+      step: 'boom',
+    });
+  });
+
+  it('should replace unknown codes, keeping the reason', async () => {
+    const { sc } = setup();
+    const pipeline = createPipeline<void>().then(
+      step('stop', () => {
+        throw Object.assign(new Error('Stopped'), { code: 'MADE_UP', reason: 'cancelled' });
+      })
+    );
+
+    await expect(pipeline.run(undefined, sc)).rejects.toMatchObject({
+      code: KladosErrorCode.PROCESSING_ERROR,
+      reason: 'cancelled',
+      step: 'stop',
+    });
+  });
+
+  it('should not start a step once cancelled', async () => {
+    const { sc } = setup();
+    const controller = new AbortController();
+    const ctx = createJobContext({ signal: controller.signal });
+    let ran = false;
+    const pipeline = createPipeline<void>().then(step('work', () => void (ran = true)));
+
+    controller.abort(new Error('Cancelled'));
+
+    await expect(pipeline.run(undefined, { ...sc, ctx })).rejects.toThrow('Cancelled');
+    expect(ran).toBe(false);
+  });
+});
+
+describe('templatePipeline', () => {
+  it('should run the default steps in order', () => {
+    expect(templatePipeline().steps).toEqual(['fetch', 'validate', 'process', 'write']);
+  });
+
+  it('should replace only the overridden steps', async () => {
+    const { fake, sc } = setup();
+    const pipeline = templatePipeline({
+      process: step('shout', (target) => ({
+        target,
+        result: String(target.properties.title).toUpperCase(),
+      })),
+    });
+
+    const outputIds = await pipeline.run(undefined, sc);
+
+    expect(pipeline.steps).toEqual(['fetch', 'validate', 'shout', 'write']);
+    const output = fake.expectCreated({ properties: { result: 'TEST ENTITY' } });
+    expect(outputIds).toEqual([output.id]);
+  });
+
+  it('should hand off a chunked output without its chunks', async () => {
+    const { fake, sc } = setup();
+    const pipeline = templatePipeline({
+      process: step('expand', (target) => ({ target, result: 'x'.repeat(100 * 1024) })),
+    });
+
+    const outputIds = await pipeline.run(undefined, sc);
+
+    const output = fake.expectCreated({ type: 'processed_output' });
+    expect(fake.created.length).toBeGreaterThan(1);
+    expect(outputIds).toEqual([output.id]);
+  });
+});
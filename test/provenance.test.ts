@@ -0,0 +1,87 @@
+/**
+ * Unit tests for output provenance
+ *
+ * Creates outputs through the fake KladosJob, whose run() sets the job's log
+ * ID and whose collection listings are paged like the Arke API.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GENERATED_BY, findOutputs, linkProvenance, trackProvenance } from '../src/provenance';
+import { createOutputBuilder } from '../src/outputs';
+import { createFakeJob, type FakeJob, type FakeTarget } from './support/fake-job';
+import type { Env } from '../src/types';
+
+const target: FakeTarget = {
+  id: 'ent_1',
+  type: 'test_entity',
+  properties: { title: 'Test Entity' },
+};
+
+const env = {
+  AGENT_ID: 'klados_test',
+  AGENT_VERSION: '1.0.0',
+  ARKE_AGENT_KEY: 'ak_test',
+} as Env;
+
+async function createOutput(fake: FakeJob) {
+  const stop = trackProvenance(fake.job, env);
+  const outputs = createOutputBuilder(fake.job);
+  const output = outputs.add('processed_output', { result: 'x' }).derivedFrom(target);
+  await outputs.commit();
+  stop();
+  return fake.stored(output.id!)!;
+}
+
+const generatedBy = { predicate: GENERATED_BY, peer: 'log_job_test', peer_type: 'klados_log' };
+
+describe('trackProvenance', () => {
+  it("should link outputs to the job's log", async () => {
+    const fake = createFakeJob({ target });
+    let output: FakeTarget | undefined;
+
+    await fake.job.run(async () => {
+      output = await createOutput(fake);
+      return [output.id];
+    });
+
+    expect(output?.relationships).toContainEqual(generatedBy);
+    expect(output?.properties.provenance).toMatchObject({
+      klados_id: 'klados_test',
+      job_id: 'job_test',
+    });
+    expect(fake.calls.some((call) => call.startsWith('GET /collections'))).toBe(false);
+  });
+
+  it('should link outputs created before the log once it exists', async () => {
+    const fake = createFakeJob({ target });
+
+    const output = await createOutput(fake);
+    expect(output.relationships).not.toContainEqual(generatedBy);
+
+    await fake.job.run(async () => {
+      await linkProvenance(fake.job);
+      return [output.id];
+    });
+    expect(fake.stored(output.id)?.relationships).toContainEqual(generatedBy);
+  });
+});
+
+describe('findOutputs', () => {
+  it('should match outputs across every page of the collection', async () => {
+    const outputs: FakeTarget[] = Array.from({ length: 250 }, (_, i) => ({
+      id: `out_${i}`,
+      type: 'processed_output',
+      collection: 'col_target',
+      properties: {
+        provenance: { klados_id: 'klados_test', agent_version: i < 200 ? '1.0.0' : '1.1.0' },
+      },
+    }));
+    const fake = createFakeJob({ target, entities: outputs });
+
+    const found = await findOutputs(fake.job, 'col_target', { agent_version: '1.1.0' });
+
+    expect(found.map((entity) => entity.id)).toEqual(outputs.slice(200).map((e) => e.id));
+    const listings = fake.calls.filter((call) => call === 'GET /collections/col_target/entities');
+    expect(listings).toHaveLength(3);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Unit tests for queue execution mode
+ *
+ * Delivers queued jobs to the consumer on the fake KladosJob, with scripted
+ * messages that record whether they were acked or retried.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { KladosRequest } from '@arke-institute/rhiza';
+import {
+  runMessage,
+  failDeadLetter,
+  isFinalAttempt,
+  isRetryableError,
+  retryDelaySeconds,
+} from '../src/queue';
+import { apiError } from '../src/retry';
+import { getJobRecord, putJobRecord } from '../src/idempotency';
+import { getJobStatus } from '../src/status';
+import { createOutputBuilder } from '../src/outputs';
+import { GENERATED_BY } from '../src/provenance';
+import { KLADOI, hostKlados } from '../src/kladoi';
+import { createFakeJob, type FakeTarget } from './support/fake-job';
+import { createFakeKV } from './support/fake-kv';
+import type { JobEvent } from '../src/notify';
+import type { Env, ProcessJob } from '../src/types';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const target: FakeTarget = {
+  id: 'ent_1',
+  type: 'test_entity',
+  properties: { title: 'Test Entity' },
+};
+
+const unavailable = () =>
+  apiError('Failed to fetch target', { error: {}, response: new Response(null, { status: 503 }) });
+
+function queuedMessage(body: KladosRequest, attempts: number) {
+  return {
+    id: `msg_${attempts}`,
+    timestamp: new Date(),
+    body,
+    attempts,
+    ack: vi.fn(),
+    retry: vi.fn(),
+  };
+}
+
+/**
+ * Env with an in-memory notification queue and, optionally, JOB_STATE
+ */
+function queueEnv(overrides: Partial<Env> = {}) {
+  const events: JobEvent[] = [];
+  const env: Env = {
+    AGENT_ID: 'klados_test',
+    AGENT_VERSION: '0.0.0',
+    ARKE_AGENT_KEY: 'ak_test',
+    EXECUTION_MODE: 'queue',
+    QUEUE_RETRY_DELAY_SECONDS: '5',
+    NOTIFY_QUEUE: {
+      send: async (event: JobEvent) => void events.push(event),
+    } as unknown as Queue<JobEvent>,
+    ...overrides,
+  };
+  return { env, events };
+}
+
+/**
+ * Deliver one attempt of a job whose processing is `process`
+ */
+async function deliver(env: Env, attempts: number, process: ProcessJob) {
+  const handedOff: string[][] = [];
+  const jobId = `job_${crypto.randomUUID()}`;
+  const fake = createFakeJob({
+    target,
+    request: { job_id: jobId },
+    onHandoff: async (ids) => void handedOff.push(ids),
+  });
+  const run = vi.spyOn(fake.job, 'run');
+  const message = queuedMessage(fake.request, attempts);
+
+  await runMessage(
+    message as unknown as Message<KladosRequest>,
+    fake.job,
+    { ...hostKlados(env, KLADOI[0]), processJob: process },
+    env
+  );
+
+  return { fake, message, run, handedOff, jobId };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('runMessage', () => {
+  it('should run the job, hand off its outputs and ack', async () => {
+    const { env, events } = queueEnv();
+
+    const { message, run, handedOff } = await deliver(env, 1, async () => ['out_1']);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(handedOff).toEqual([['out_1']]);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(events.map((e) => e.type)).toEqual(['job.completed']);
+  });
+
+  it("should link outputs to the job's log, which is written after processing", async () => {
+    const { env } = queueEnv();
+
+    const { fake, handedOff } = await deliver(env, 1, async (job) => {
+      const outputs = createOutputBuilder(job);
+      outputs.add('processed_output', { result: 'Done' }).derivedFrom(target);
+      return outputs.commit();
+    });
+
+    const [outputId] = handedOff[0];
+    expect(fake.created[0].relationships).not.toContainEqual(
+      expect.objectContaining({ predicate: GENERATED_BY })
+    );
+    expect(fake.stored(outputId)?.relationships).toContainEqual({
+      predicate: GENERATED_BY,
+      peer: `log_${fake.request.job_id}`,
+      peer_type: 'klados_log',
+    });
+  });
+
+  it('should retry a retryable failure without finalizing the job', async () => {
+    const { env, events } = queueEnv();
+
+    const { message, run, jobId } = await deliver(env, 2, async () => {
+      throw unavailable();
+    });
+
+    expect(message.retry).toHaveBeenCalledWith({ delaySeconds: 10 });
+    expect(message.ack).not.toHaveBeenCalled();
+    expect(run).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+    expect(await getJobStatus(env, jobId)).toMatchObject({
+      phase: 'retrying',
+      error: { code: 'NETWORK_ERROR' },
+    });
+  });
+
+  it('should finalize a retryable failure on the final attempt', async () => {
+    const { env, events } = queueEnv({ QUEUE_MAX_RETRIES: '2' });
+
+    const { message, run } = await deliver(env, 3, async () => {
+      throw unavailable();
+    });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(events.map((e) => [e.type, e.error?.code])).toEqual([['job.failed', 'NETWORK_ERROR']]);
+  });
+
+  it('should finalize and ack errors that are not retryable', async () => {
+    const { env, events } = queueEnv();
+
+    const { message, run } = await deliver(env, 1, async () => {
+      throw new Error('Bad input');
+    });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(events.map((e) => e.type)).toEqual(['job.failed']);
+  });
+
+  it('should ack redeliveries of finished jobs without running them', async () => {
+    const store = createFakeKV();
+    const { env, events } = queueEnv({ JOB_STATE: store });
+    const first = await deliver(env, 1, async () => ['out_1']);
+    const fake = createFakeJob({ target, request: { job_id: first.jobId } });
+    const run = vi.spyOn(fake.job, 'run');
+    const message = queuedMessage(fake.request, 2);
+
+    await runMessage(
+      message as unknown as Message<KladosRequest>,
+      fake.job,
+      hostKlados(env, KLADOI[0]),
+      env
+    );
+
+    expect((await getJobRecord(store, first.jobId))?.status).toBe('done');
+    expect(run).not.toHaveBeenCalled();
+    expect(message.ack).toHaveBeenCalled();
+    expect(events).toHaveLength(1);
+  });
+});
+
+describe('job events', () => {
+  const attempt = async (env: Env, jobId: string, attempts: number, process: ProcessJob) => {
+    const fake = createFakeJob({ target, request: { job_id: jobId } });
+    const message = queuedMessage(fake.request, attempts);
+    await runMessage(
+      message as unknown as Message<KladosRequest>,
+      fake.job,
+      { ...hostKlados(env, KLADOI[0]), processJob: process },
+      env
+    );
+    return message;
+  };
+
+  it('should send one event per job across its attempts', async () => {
+    const { env, events } = queueEnv({ JOB_STATE: createFakeKV() });
+
+    await attempt(env, 'job_retried', 1, async () => {
+      throw unavailable();
+    });
+    await attempt(env, 'job_retried', 2, async () => {
+      throw unavailable();
+    });
+    const last = await attempt(env, 'job_retried', 3, async () => ['out_1']);
+
+    expect(last.ack).toHaveBeenCalled();
+    expect(events.map((e) => [e.type, e.job_id])).toEqual([['job.completed', 'job_retried']]);
+  });
+
+  it('should ack without waiting for the event to be delivered', async () => {
+    const { env } = queueEnv({
+      NOTIFY_QUEUE: { send: () => new Promise(() => {}) } as unknown as Queue<JobEvent>,
+    });
+    const fake = createFakeJob({ target });
+    const message = queuedMessage(fake.request, 1);
+    const ctx = { waitUntil: vi.fn() };
+
+    await runMessage(
+      message as unknown as Message<KladosRequest>,
+      fake.job,
+      hostKlados(env, KLADOI[0]),
+      env,
+      ctx as unknown as ExecutionContext
+    );
+
+    expect(message.ack).toHaveBeenCalled();
+    expect(ctx.waitUntil).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('failDeadLetter', () => {
+  const deadLetter = async (env: Env, jobId: string) => {
+    const fake = createFakeJob({ target, request: { job_id: jobId } });
+    const run = vi.spyOn(fake.job, 'run');
+    const message = queuedMessage(fake.request, 1);
+    await failDeadLetter(
+      message as unknown as Message<KladosRequest>,
+      fake.job,
+      hostKlados(env, KLADOI[0]),
+      env
+    );
+    return { message, run };
+  };
+
+  it('should fail a job whose attempts never finished', async () => {
+    const store = createFakeKV();
+    const { env, events } = queueEnv({ JOB_STATE: store });
+    const now = new Date().toISOString();
+    await putJobRecord(store, {
+      job_id: 'job_lost',
+      status: 'running',
+      accept_response: {},
+      created_at: now,
+      updated_at: now,
+    });
+
+    const { message, run } = await deadLetter(env, 'job_lost');
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(message.ack).toHaveBeenCalled();
+    expect((await getJobRecord(store, 'job_lost'))?.status).toBe('failed');
+    expect(events.map((e) => e.type)).toEqual(['job.failed']);
+  });
+
+  it('should leave jobs that were already finalized alone', async () => {
+    const store = createFakeKV();
+    const { env, events } = queueEnv({ JOB_STATE: store });
+    const { jobId } = await deliver(env, 4, async () => {
+      throw unavailable();
+    });
+
+    const { message, run } = await deadLetter(env, jobId);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(message.ack).toHaveBeenCalled();
+    expect(events.map((e) => e.type)).toEqual(['job.failed']);
+  });
+});
+
+describe('retry policy', () => {
+  it('should retry transient errors with exponential backoff', () => {
+    expect(isRetryableError(unavailable())).toBe(true);
+    expect(isRetryableError({ code: 'RATE_LIMITED' })).toBe(true);
+    expect(isRetryableError({ code: 'NETWORK_ERROR', retryable: false })).toBe(false);
+    expect(isRetryableError(new Error('Bad input'))).toBe(false);
+
+    expect([1, 2, 3].map((attempt) => retryDelaySeconds(attempt, 10))).toEqual([10, 20, 40]);
+    expect(retryDelaySeconds(30, 10)).toBe(12 * 60 * 60);
+  });
+
+  it('should treat the attempt after the last retry as final', () => {
+    const env = { QUEUE_MAX_RETRIES: '2' } as Env;
+
+    expect([1, 2, 3].map((attempt) => isFinalAttempt(attempt, env))).toEqual([false, false, true]);
+    expect(isFinalAttempt(4, {} as Env)).toBe(true);
+    expect(isFinalAttempt(3, {} as Env)).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for log redaction
+ *
+ * Wraps the fake KladosJob's capturing logger and checks what reaches it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { redact, redactLog, redactionOptions, REDACTED } from '../src/redact';
+import { createFakeJob } from './support/fake-job';
+import type { Env } from '../src/types';
+
+const ENV: Env = { AGENT_ID: 'klados_test', AGENT_VERSION: '0.0.0', ARKE_AGENT_KEY: 'ak_test' };
+
+function redactedJob(env: Partial<Env> = {}) {
+  const fake = createFakeJob();
+  redactLog(fake.job, redactionOptions({ ...ENV, ...env }));
+  return fake;
+}
+
+describe('redactLog', () => {
+  it('should redact values under sensitive keys', () => {
+    const fake = redactedJob();
+
+    fake.job.log.info('Calling model', {
+      model: 'gpt',
+      api_key: 'sk-live-123',
+      headers: { Authorization: 'Basic abc', Accept: 'application/json' },
+      system_prompt: 'You are a helpful assistant',
+      usage: { prompt_tokens: 120, access_token: 'tok' },
+    });
+
+    expect(fake.logs[0].metadata).toEqual({
+      model: 'gpt',
+      api_key: REDACTED,
+      headers: { Authorization: REDACTED, Accept: 'application/json' },
+      system_prompt: REDACTED,
+      usage: { prompt_tokens: 120, access_token: REDACTED },
+    });
+  });
+
+  it('should redact secrets found in messages and values', () => {
+    const fake = redactedJob();
+
+    fake.job.log.warning('Request with ak_1234567890abcdef failed for jane.doe@example.com', {
+      header: 'Bearer eyJhbGciOiJIUzI1NiJ9.payload.sig',
+      url: 'https://files.test/doc.pdf?token=s3cr3t&page=2',
+      note: 'user key uk_abcdefghij12',
+    });
+
+    const [entry] = fake.logs;
+    expect(entry.message).toBe('Request with [REDACTED:arke_key] failed for [REDACTED:email]');
+    expect(entry.metadata).toEqual({
+      header: 'Bearer [REDACTED:bearer]',
+      url: 'https://files.test/doc.pdf?token=[REDACTED:url_credential]&page=2',
+      note: 'user key [REDACTED:arke_key]',
+    });
+  });
+
+  it('should truncate oversized payloads', () => {
+    const fake = redactedJob({ LOG_MAX_STRING_LENGTH: '10' });
+    const nested = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } };
+
+    fake.job.log.info('x'.repeat(25), {
+      content: 'y'.repeat(15),
+      ids: Array.from({ length: 60 }, (_, i) => i),
+      nested,
+    });
+
+    const [entry] = fake.logs;
+    const metadata = entry.metadata as {
+      content: string;
+      ids: unknown[];
+      nested: { a: { b: { c: { d: { e: unknown } } } } };
+    };
+    expect(entry.message).toBe(`${'x'.repeat(10)}…[truncated 15 chars]`);
+    expect(metadata.content).toBe(`${'y'.repeat(10)}…[truncated 5 chars]`);
+    expect(metadata.ids).toHaveLength(51);
+    expect(metadata.ids.at(-1)).toBe('…[truncated 10 items]');
+    expect(metadata.nested.a.b.c.d.e).toBe('[Truncated: too deep]');
+  });
+
+  it('should apply LOG_REDACT_KEYS', () => {
+    const fake = redactedJob({ LOG_REDACT_KEYS: 'ssn, ^content$, [invalid' });
+
+    fake.job.log.error('Failed', { ssn: '123-45-6789', content: 'body', '[invalid': 1, id: 'x' });
+
+    expect(fake.logs[0].metadata).toEqual({
+      ssn: REDACTED,
+      content: REDACTED,
+      '[invalid': REDACTED,
+      id: 'x',
+    });
+  });
+
+  it('should keep every level and logs without metadata', () => {
+    const fake = redactedJob();
+
+    fake.job.log.info('one');
+    fake.job.log.success('two');
+    fake.job.log.warning('three');
+    fake.job.log.error('four');
+
+    expect(fake.logs.map((l) => [l.level, l.message, l.metadata])).toEqual([
+      ['info', 'one', undefined],
+      ['success', 'two', undefined],
+      ['warning', 'three', undefined],
+      ['error', 'four', undefined],
+    ]);
+  });
+});
+
+describe('redact', () => {
+  it('should handle errors, cycles and shared references', () => {
+    const options = redactionOptions(ENV);
+    const shared = { id: 'ent_1' };
+    const cyclic: Record<string, unknown> = { shared, again: shared };
+    cyclic.self = cyclic;
+
+    expect(redact({ cyclic, error: new Error('Bearer abc123') }, options)).toEqual({
+      cyclic: { shared: { id: 'ent_1' }, again: { id: 'ent_1' }, self: '[Circular]' },
+      error: { name: 'Error', message: 'Bearer [REDACTED:bearer]' },
+    });
+  });
+});
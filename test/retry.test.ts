@@ -0,0 +1,115 @@
+/**
+ * Unit tests for retrying API calls
+ *
+ * Uses the fake KladosJob, scripting POST /entities failures with onCreate.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { retryClient, apiError, parseRetryAfter } from '../src/retry';
+import { createFakeJob } from './support/fake-job';
+
+/** Shaped like the bodies the output builder sends */
+const BODY = {
+  type: 'processed_output',
+  collection: 'col_target',
+  properties: {} as Record<string, unknown>,
+  relationships: [],
+};
+
+describe('retryClient', () => {
+  it('should retry rate-limited calls and log each retry', async () => {
+    const fake = createFakeJob({
+      onCreate: (_body, attempt) =>
+        attempt < 3 ? { error: { error: 'Too Many Requests', status: 429 } } : undefined,
+    });
+    retryClient(fake.job, { baseDelayMs: 1 });
+
+    const { data, error } = await fake.job.client.api.POST('/entities', { body: BODY });
+
+    expect(error).toBeUndefined();
+    expect(data?.id).toBeDefined();
+    expect(fake.calls.filter((call) => call === 'POST /entities')).toHaveLength(3);
+    expect(fake.messages('warning')).toEqual([
+      'Retrying POST /entities',
+      'Retrying POST /entities',
+    ]);
+  });
+
+  it('should honor Retry-After', async () => {
+    const fake = createFakeJob({
+      onCreate: (_body, attempt) =>
+        attempt === 1
+          ? {
+              error: { error: 'Unavailable' },
+              response: new Response(null, { status: 503, headers: { 'Retry-After': '0' } }),
+            }
+          : undefined,
+    });
+    retryClient(fake.job, { baseDelayMs: 60_000 });
+
+    await fake.job.client.api.POST('/entities', { body: BODY });
+
+    expect(fake.expectLog('warning', 'Retrying POST /entities').metadata).toMatchObject({
+      status: 503,
+      delayMs: 0,
+    });
+  });
+
+  it('should not repeat a POST the API may have processed', async () => {
+    const fake = createFakeJob({
+      onCreate: () => ({ error: { error: 'Internal Server Error', status: 500 } }),
+    });
+    retryClient(fake.job, { baseDelayMs: 1 });
+
+    const { error } = await fake.job.client.api.POST('/entities', { body: BODY });
+
+    expect(error).toBeDefined();
+    expect(fake.calls).toEqual(['POST /entities']);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const fake = createFakeJob({
+      onCreate: () => ({ error: { error: 'Too Many Requests', status: 429 } }),
+    });
+    retryClient(fake.job, { baseDelayMs: 1, maxAttempts: 2 });
+
+    const { error } = await fake.job.client.api.POST('/entities', { body: BODY });
+
+    expect(error).toBeDefined();
+    expect(fake.calls).toHaveLength(2);
+  });
+});
+
+describe('apiError', () => {
+  it.each([
+    [404, 'NOT_FOUND', false],
+    [422, 'VALIDATION_ERROR', false],
+    [429, 'RATE_LIMITED', true],
+    [503, 'NETWORK_ERROR', true],
+    [504, 'TIMEOUT', true],
+    [403, 'PROCESSING_ERROR', false],
+  ])('should classify %i as %s', (status, code, retryable) => {
+    const error = apiError('Failed', { error: { error: 'x', status } });
+    expect(error).toMatchObject({ code, retryable });
+  });
+
+  it.each([
+    [500, false],
+    [504, false],
+    [503, true],
+    [429, true],
+  ])('should only let a POST that failed with %i be retried if it was not processed', (status, retryable) => {
+    const error = apiError('Failed', { error: { error: 'x', status } }, 'POST');
+    expect(error.retryable).toBe(retryable);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should accept seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for job status tracking
+ *
+ * Tracks the fake KladosJob with status records in an in-memory KV, counting
+ * the writes that reach it.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { openStatus, getJobStatus } from '../src/status';
+import { createFakeJob } from './support/fake-job';
+import { createFakeKV } from './support/fake-kv';
+import type { Env } from '../src/types';
+
+function trackedEnv() {
+  const kv = createFakeKV();
+  const writes: Array<{ key: string; at: number }> = [];
+  const put = kv.put.bind(kv);
+  kv.put = (async (key: string, value: string, options?: KVNamespacePutOptions) => {
+    writes.push({ key, at: Date.now() });
+    return put(key, value, options);
+  }) as typeof kv.put;
+
+  const env: Env = {
+    AGENT_ID: 'klados_test',
+    AGENT_VERSION: '0.0.0',
+    ARKE_AGENT_KEY: 'ak_test',
+    JOB_STATE: kv,
+  };
+  return { env, writes };
+}
+
+describe('openStatus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should coalesce phase changes into one write per second', async () => {
+    const { env, writes } = trackedEnv();
+    const fake = createFakeJob({ request: { job_id: 'job_status' } });
+    const status = await openStatus(env, fake.job);
+
+    status.phase('fetching_target');
+    status.phase('processing');
+    status.phase('creating_outputs');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    status.handoff(['out_1']);
+    status.finish();
+    const flushed = status.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    await flushed;
+
+    const statusWrites = writes.filter((w) => w.key === 'status:job_status');
+    expect(statusWrites).toHaveLength(3);
+    statusWrites.slice(1).forEach((write, i) => {
+      expect(write.at - statusWrites[i].at).toBeGreaterThanOrEqual(1000);
+    });
+
+    const stored = await getJobStatus(env, 'job_status');
+    expect(stored?.phase).toBe('done');
+    expect(stored?.output_ids).toEqual(['out_1']);
+    expect(stored?.phases.map((p) => p.phase)).toEqual([
+      'accepted',
+      'fetching_target',
+      'processing',
+      'creating_outputs',
+      'handing_off',
+    ]);
+  });
+
+  it('should write the latest state on flush', async () => {
+    const { env, writes } = trackedEnv();
+    const fake = createFakeJob({ request: { job_id: 'job_flush' } });
+    const status = await openStatus(env, fake.job);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    status.phase('processing');
+    status.fail(new Error('Broken'));
+    await status.flush();
+
+    expect(writes.filter((w) => w.key === 'status:job_flush')).toHaveLength(2);
+    expect(await getJobStatus(env, 'job_flush')).toMatchObject({
+      phase: 'failed',
+      error: { message: 'Broken' },
+    });
+  });
+});
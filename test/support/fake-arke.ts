@@ -0,0 +1,455 @@
+/**
+ * In-process fake of the Arke API
+ *
+ * Implements enough of the API for the worker and KladosJob to run offline:
+ * - Entities: create, get, tip, update (with expect_tip CAS), delete
+ * - Collections: create, list members (paged with ?limit and ?cursor)
+ * - Klados invocation: preview (confirm=false) and confirmed invoke, which
+ *   dispatches a KladosRequest to the worker under test
+ * - Rhiza: get, and invoke, which starts the flow at its entry step
+ *
+ * klados_log entities are ordinary entities here, so whatever KladosJob
+ * writes can be read back with the same shape the real API returns.
+ *
+ * Each dispatched job gets its own api_base, so requests made by a job's
+ * client are attributed to it: `jobs` records which job invoked which, and
+ * `creators` which job created each entity (see ./workflow).
+ */
+
+import type { KladosRequest } from '@arke-institute/rhiza';
+import type { ApiInit, ApiResult } from '../../src/client';
+
+export const FAKE_API_BASE = 'https://arke.test';
+
+export interface FakeRelationship {
+  predicate: string;
+  peer: string;
+  peer_type?: string;
+  properties?: Record<string, unknown>;
+}
+
+export interface FakeEntity {
+  id: string;
+  cid: string;
+  type: string;
+  collection?: string;
+  properties: Record<string, unknown>;
+  relationships: FakeRelationship[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  /** Job whose client made the request, if any */
+  caller?: string;
+}
+
+/** Body of POST /entities */
+interface CreateBody {
+  type?: string;
+  collection?: string;
+  properties?: Record<string, unknown>;
+  relationships?: FakeRelationship[];
+}
+
+/** Body of PUT /entities/{id} */
+interface UpdateBody {
+  expect_tip?: string;
+  properties?: Record<string, unknown>;
+  properties_remove?: string[];
+  relationships_add?: FakeRelationship[];
+}
+
+/** Body of POST /kladoi/{id}/invoke (and of rhiza invocations) */
+interface InvokeBody {
+  target_entity?: string;
+  target_entities?: string[];
+  target_collection?: string;
+  job_collection?: string;
+  input?: Record<string, unknown>;
+  confirm?: boolean;
+  /** Rhiza context of flow invocations */
+  rhiza?: { id: string; path: string[]; parent_logs: string[] };
+}
+
+/**
+ * A confirmed invocation and the job that made it (none for user invocations)
+ */
+export interface DispatchedJob {
+  request: KladosRequest;
+  parent?: string;
+}
+
+/**
+ * Receives requests the fake would send to the worker's /process endpoint
+ */
+export type WorkerDispatcher = (request: KladosRequest) => Promise<Response>;
+
+type Handler = (
+  params: Record<string, string>,
+  body: unknown,
+  url: URL,
+  caller?: string
+) => Response | Promise<Response>;
+
+interface Fault {
+  match: (request: RecordedRequest) => boolean;
+  status: number;
+}
+
+/**
+ * Jobs started by any fake so far. Job IDs are unique across fakes, like
+ * Arke's, because the worker keeps job status per isolate (see src/status.ts)
+ */
+let jobCount = 0;
+
+/** Path prefix of per-job API bases */
+const JOB_PREFIX = /^\/_job\/([^/]+)(\/.*)$/;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function notFound(message: string): Response {
+  return json({ error: message, code: 'NOT_FOUND' }, 404);
+}
+
+export class FakeArkeApi {
+  /** All entities (including collections and klados_log), by ID */
+  readonly entities = new Map<string, FakeEntity>();
+
+  /** Every request received, in order */
+  readonly requests: RecordedRequest[] = [];
+
+  /** Requests that matched no route (useful when debugging a failing test) */
+  readonly unhandled: RecordedRequest[] = [];
+
+  /** Confirmed invocations, in order */
+  readonly jobs: DispatchedJob[] = [];
+
+  /** Job that created each entity, by entity ID (entities created outside a job are absent) */
+  readonly creators = new Map<string, string>();
+
+  /** Whether collection listings include relationships (listings may omit them) */
+  listsRelationships = true;
+
+  /** Set by the harness so confirmed invocations reach the worker */
+  dispatcher?: WorkerDispatcher;
+
+  /** Dispatchers for specific klados IDs, used instead of `dispatcher` */
+  readonly dispatchers = new Map<string, WorkerDispatcher>();
+
+  /** Network reported in dispatched requests */
+  network: 'test' | 'main' = 'test';
+
+  private counter = 0;
+  private routes: Route[] = [];
+  private faults: Fault[] = [];
+
+  constructor() {
+    this.route('POST', '/entities', (_, body, __, caller) =>
+      this.createEntity(body as CreateBody | undefined, caller)
+    );
+    this.route('GET', '/entities/:id', ({ id }) => this.getEntity(id));
+    this.route('GET', '/entities/:id/tip', ({ id }) => this.getTip(id));
+    this.route('PUT', '/entities/:id', ({ id }, body) =>
+      this.updateEntity(id, body as UpdateBody | undefined)
+    );
+    this.route('DELETE', '/entities/:id', ({ id }) => this.deleteEntity(id));
+    this.route('POST', '/collections', (_, body) =>
+      this.createEntity({
+        type: 'collection',
+        properties: (body as Record<string, unknown> | undefined) ?? {},
+      })
+    );
+    this.route('GET', '/collections/:id/entities', ({ id }, _, url) =>
+      this.listCollection(id, url)
+    );
+    this.route('POST', '/kladoi/:id/invoke', ({ id }, body, _, caller) =>
+      this.invoke(id, body as InvokeBody | undefined, caller)
+    );
+    this.route('GET', '/rhizai/:id', ({ id }) => this.getEntity(id, 'rhiza'));
+    this.route('POST', '/rhizai/:id/invoke', ({ id }, body) =>
+      this.invokeRhiza(id, body as InvokeBody | undefined)
+    );
+  }
+
+  // ===========================================================================
+  // Fixture helpers
+  // ===========================================================================
+
+  /**
+   * Insert an entity directly (bypassing the HTTP layer)
+   */
+  seed(entity: {
+    type: string;
+    properties?: Record<string, unknown>;
+    collection?: string;
+    relationships?: FakeRelationship[];
+  }): FakeEntity {
+    const now = new Date().toISOString();
+    const created: FakeEntity = {
+      id: this.nextId(entity.type === 'collection' ? 'col' : 'ent'),
+      cid: this.nextId('cid'),
+      type: entity.type,
+      collection: entity.collection,
+      properties: structuredClone(entity.properties ?? {}),
+      relationships: structuredClone(entity.relationships ?? []),
+      created_at: now,
+      updated_at: now,
+    };
+    this.entities.set(created.id, created);
+    return created;
+  }
+
+  /**
+   * Entities in a collection, optionally filtered by type
+   */
+  inCollection(collectionId: string, type?: string): FakeEntity[] {
+    return [...this.entities.values()].filter(
+      (e) => e.collection === collectionId && (!type || e.type === type)
+    );
+  }
+
+  /**
+   * Answer matching requests with an error instead of handling them
+   */
+  failRequests(match: (request: RecordedRequest) => boolean, status = 500): void {
+    this.faults.push({ match, status });
+  }
+
+  // ===========================================================================
+  // HTTP
+  // ===========================================================================
+
+  /**
+   * An openapi-fetch style client over this fake, shaped like ArkeClient
+   */
+  client() {
+    const call =
+      (method: string) =>
+      async (path: string, init: ApiInit = {}): Promise<ApiResult> => {
+        const params = init.params?.path ?? {};
+        const resolved = path.replace(/\{(\w+)\}/g, (_, key: string) => params[key] ?? '');
+        const url = new URL(`${FAKE_API_BASE}${resolved}`);
+        for (const [key, value] of Object.entries(init.params?.query ?? {})) {
+          if (value !== undefined) url.searchParams.set(key, String(value));
+        }
+
+        const response = await this.fetch(
+          new Request(url, {
+            method,
+            ...(init.body !== undefined && {
+              body: JSON.stringify(init.body),
+              headers: { 'Content-Type': 'application/json' },
+            }),
+          })
+        );
+        const body: unknown = await response.clone().json();
+        return response.ok ? { data: body, response } : { error: body, response };
+      };
+
+    return {
+      api: { GET: call('GET'), POST: call('POST'), PUT: call('PUT'), DELETE: call('DELETE') },
+    };
+  }
+
+  /**
+   * Handle a request addressed to FAKE_API_BASE
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const text = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.text();
+    const body = text ? JSON.parse(text) : undefined;
+    const [, caller, path = url.pathname] = JOB_PREFIX.exec(url.pathname) ?? [];
+    const recorded: RecordedRequest = { method: request.method, path, body, caller };
+    this.requests.push(recorded);
+
+    const fault = this.faults.find((f) => f.match(recorded));
+    if (fault) {
+      return json({ error: `Injected failure for ${request.method} ${path}` }, fault.status);
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, match[i + 1]]));
+      return route.handler(params, body, url, caller);
+    }
+
+    this.unhandled.push(recorded);
+    return notFound(`No fake route for ${request.method} ${path}`);
+  }
+
+  private route(method: string, path: string, handler: Handler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+  }
+
+  private nextId(prefix: string): string {
+    this.counter += 1;
+    return `${prefix}_${String(this.counter).padStart(4, '0')}`;
+  }
+
+  // ===========================================================================
+  // Entities
+  // ===========================================================================
+
+  private createEntity(body: CreateBody | undefined, caller?: string): Response {
+    if (!body?.type) {
+      return json({ error: 'type is required', code: 'VALIDATION_ERROR' }, 400);
+    }
+    if (body.collection && !this.entities.has(body.collection)) {
+      return notFound(`Collection ${body.collection} not found`);
+    }
+    const entity = this.seed({ ...body, type: body.type });
+    if (caller) this.creators.set(entity.id, caller);
+    return json(entity, 201);
+  }
+
+  private getEntity(id: string, type?: string): Response {
+    const entity = this.entities.get(id);
+    return entity && (!type || entity.type === type)
+      ? json(entity)
+      : notFound(`Entity ${id} not found`);
+  }
+
+  private getTip(id: string): Response {
+    const entity = this.entities.get(id);
+    return entity ? json({ id, cid: entity.cid }) : notFound(`Entity ${id} not found`);
+  }
+
+  private updateEntity(id: string, body: UpdateBody | undefined): Response {
+    const entity = this.entities.get(id);
+    if (!entity) return notFound(`Entity ${id} not found`);
+
+    if (body?.expect_tip && body.expect_tip !== entity.cid) {
+      return json(
+        { error: 'Entity was modified', code: 'CONFLICT', current_tip: entity.cid },
+        409
+      );
+    }
+
+    entity.properties = { ...entity.properties, ...(body?.properties ?? {}) };
+    for (const key of body?.properties_remove ?? []) {
+      delete entity.properties[key];
+    }
+    entity.relationships.push(...(body?.relationships_add ?? []));
+    entity.cid = this.nextId('cid');
+    entity.updated_at = new Date().toISOString();
+
+    return json(entity);
+  }
+
+  private deleteEntity(id: string): Response {
+    if (!this.entities.delete(id)) return notFound(`Entity ${id} not found`);
+    return json({ id, deleted: true });
+  }
+
+  private listCollection(id: string, url: URL): Response {
+    if (!this.entities.has(id)) return notFound(`Collection ${id} not found`);
+    const type = url.searchParams.get('type') ?? undefined;
+    const entities = this.inCollection(id, type);
+
+    // The cursor is just the offset of the next page
+    const start = Number(url.searchParams.get('cursor') ?? 0);
+    const limit = Number(url.searchParams.get('limit')) || entities.length;
+    const next = start + limit < entities.length ? String(start + limit) : undefined;
+    const page = entities
+      .slice(start, start + limit)
+      .map(({ relationships, ...entity }) =>
+        this.listsRelationships ? { ...entity, relationships } : entity
+      );
+    return json({ entities: page, ...(next && { cursor: next }) });
+  }
+
+  // ===========================================================================
+  // Invocation
+  // ===========================================================================
+
+  private async invoke(
+    kladosId: string,
+    body: InvokeBody | undefined,
+    caller?: string
+  ): Promise<Response> {
+    const targetEntity = body?.target_entity;
+    const targetEntities = body?.target_entities;
+
+    for (const id of targetEntities ?? (targetEntity ? [targetEntity] : [])) {
+      if (!this.entities.has(id)) return notFound(`Target ${id} not found`);
+    }
+
+    if (!body?.confirm) {
+      return json({ status: 'pending_confirmation', klados_id: kladosId });
+    }
+
+    const dispatcher = this.dispatchers.get(kladosId) ?? this.dispatcher;
+    if (!dispatcher) {
+      throw new Error('FakeArkeApi.dispatcher must be set to confirm invocations');
+    }
+
+    const jobCollection = body.job_collection ?? this.seed({ type: 'collection', properties: { label: 'Job' } }).id;
+    jobCount += 1;
+    const jobId = `job_${String(jobCount).padStart(4, '0')}`;
+
+    const request = {
+      job_id: jobId,
+      klados_id: kladosId,
+      target_entity: targetEntity,
+      target_entities: targetEntities,
+      target_collection: body.target_collection,
+      job_collection: jobCollection,
+      input: body.input,
+      api_base: `${FAKE_API_BASE}/_job/${jobId}`,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      network: this.network,
+      ...(body.rhiza && { rhiza: body.rhiza }),
+    } as KladosRequest;
+
+    this.jobs.push({ request, parent: caller });
+    const res = await dispatcher(request);
+    if (!res.ok) {
+      return json({ status: 'failed', job_id: jobId, error: await res.text() }, 502);
+    }
+
+    return json({ status: 'started', job_id: jobId, job_collection: jobCollection });
+  }
+
+  /**
+   * Start a rhiza flow: invoke its entry step's klados with a fresh rhiza context
+   */
+  private async invokeRhiza(rhizaId: string, body: InvokeBody | undefined): Promise<Response> {
+    const rhiza = this.entities.get(rhizaId);
+    if (rhiza?.type !== 'rhiza') return notFound(`Rhiza ${rhizaId} not found`);
+
+    const entry = rhiza.properties.entry as string;
+    const flow = rhiza.properties.flow as Record<string, { klados: { pi: string } }>;
+    const kladosId = flow[entry]?.klados.pi;
+    if (!kladosId) {
+      return json({ error: `Entry step ${entry} not in flow`, code: 'VALIDATION_ERROR' }, 400);
+    }
+
+    return this.invoke(kladosId, {
+      ...body,
+      rhiza: { id: rhizaId, path: [entry], parent_logs: [] },
+    });
+  }
+}
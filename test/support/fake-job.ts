@@ -0,0 +1,319 @@
+/**
+ * Fake KladosJob for unit-testing processJob
+ *
+ * Builds an object with the KladosJob surface processJob uses, backed by
+ * in-memory state instead of a real client:
+ * - fetchTarget() returns a scripted entity (or runs a scripted function)
+ * - client.api.GET/POST/PUT/DELETE('/entities...') read and write an
+ *   in-memory store, with PUT honoring expect_tip and relationships_add
+ * - client.api.GET('/collections/{id}/entities') lists stored entities by
+ *   collection, paged with limit and cursor like the Arke API
+ * - log.info/success/warning/error are captured for assertions
+ * - run() sets logId, as KladosJob does once it has written the klados_log,
+ *   then processes and hands off
+ *
+ * Usage:
+ *   const fake = createFakeJob({ target: { id: 'ent_1', type: 'doc', properties: { title: 'x' } } });
+ *   const outputIds = await processJob(fake.job);
+ *   fake.expectCreated({ type: 'processed_output' });
+ *   fake.expectLog('success', 'Created output');
+ */
+
+import { expect } from 'vitest';
+import type { KladosJob, KladosRequest } from '@arke-institute/rhiza';
+
+export type LogLevel = 'info' | 'success' | 'warning' | 'error';
+
+export interface CapturedLog {
+  level: LogLevel;
+  message: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface FakeTarget {
+  id: string;
+  type: string;
+  properties: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface CreatedEntity {
+  id: string;
+  type: string;
+  collection?: string;
+  properties: Record<string, unknown>;
+  relationships: Array<{ predicate: string; peer: string; peer_type?: string }>;
+}
+
+/**
+ * Result of a scripted API call, in openapi-fetch shape
+ */
+export interface ApiResult {
+  data?: unknown;
+  error?: unknown;
+  response?: Response;
+}
+
+/**
+ * Body of POST /entities
+ */
+export interface CreateBody {
+  type?: string;
+  collection?: string;
+  properties?: Record<string, unknown>;
+  relationships?: CreatedEntity['relationships'];
+}
+
+/**
+ * Body of PUT /entities/{id}
+ */
+export interface UpdateBody {
+  expect_tip?: string;
+  properties?: Record<string, unknown>;
+  relationships_add?: CreatedEntity['relationships'];
+}
+
+export interface FakeJobOptions {
+  /** What fetchTarget() returns, or a function producing it (may throw) */
+  target?: FakeTarget | (() => Promise<FakeTarget>);
+
+  /** Additional entities readable via GET /entities/{id} (e.g. target_entities) */
+  entities?: FakeTarget[];
+
+  /** Request fields (merged over sensible defaults) */
+  request?: Partial<KladosRequest>;
+
+  isWorkflow?: boolean;
+
+  batchContext?: { id: string; index: number; total: number } | null;
+
+  /**
+   * Script POST /entities responses. Return undefined to fall through to the
+   * in-memory store, or an ApiResult to respond with (e.g. an error).
+   */
+  onCreate?: (body: CreateBody | undefined, attempt: number) => ApiResult | undefined;
+
+  /**
+   * Script PUT /entities/{id} responses, like onCreate (e.g. a 409 conflict)
+   */
+  onUpdate?: (body: UpdateBody | undefined, attempt: number) => ApiResult | undefined;
+
+  /**
+   * What job.run does after processing succeeds, standing in for KladosJob's
+   * handoff (may throw). Processing errors are rethrown either way.
+   */
+  onHandoff?: (outputIds: string[]) => Promise<void>;
+}
+
+export interface FakeJob {
+  /** Pass this to processJob */
+  job: KladosJob;
+  request: KladosRequest;
+  /** Entities created through POST /entities, in order */
+  created: CreatedEntity[];
+  /** Captured log messages, in order */
+  logs: CapturedLog[];
+  /** Every API call as "METHOD path" */
+  calls: string[];
+
+  /** Current state of an entity in the in-memory store */
+  stored(id: string): (FakeTarget & { cid: string }) | undefined;
+
+  /** Assert an entity matching type/properties was created and return it */
+  expectCreated(match: { type?: string; properties?: Record<string, unknown> }): CreatedEntity;
+  /** Assert a message at level containing text was logged and return it */
+  expectLog(level: LogLevel, textContains: string): CapturedLog;
+  /** Messages logged at a level */
+  messages(level?: LogLevel): string[];
+}
+
+/**
+ * Create a fake job
+ */
+export function createFakeJob(options: FakeJobOptions = {}): FakeJob {
+  const created: CreatedEntity[] = [];
+  const logs: CapturedLog[] = [];
+  const calls: string[] = [];
+  const store = new Map<string, FakeTarget | CreatedEntity>();
+  const tips = new Map<string, number>();
+  let createAttempts = 0;
+  let updateAttempts = 0;
+  let nextId = 0;
+  let logId: string | undefined;
+
+  const staticTarget = typeof options.target === 'function' ? undefined : options.target;
+  for (const entity of [...(staticTarget ? [staticTarget] : []), ...(options.entities ?? [])]) {
+    store.set(entity.id, entity);
+  }
+
+  const request = {
+    job_id: 'job_test',
+    target_entity: staticTarget?.id,
+    target_collection: 'col_target',
+    job_collection: 'col_job',
+    api_base: 'https://arke.test',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    network: 'test',
+    ...options.request,
+  } as KladosRequest;
+
+  const stored = (id: string) => {
+    const entity = store.get(id);
+    return entity ? { ...(entity as FakeTarget), cid: `cid_${id}_${tips.get(id) ?? 0}` } : undefined;
+  };
+
+  const capture = (level: LogLevel) => (message: string, metadata?: Record<string, unknown>) => {
+    logs.push({ level, message, metadata });
+  };
+
+  const listCollection = (id: string, query: Record<string, unknown> = {}): ApiResult => {
+    const entities = [...store.values()]
+      .filter((e) => e.collection === id && (!query.type || e.type === query.type))
+      .map((e) => stored(e.id)!);
+
+    // The cursor is just the offset of the next page
+    const start = Number(query.cursor ?? 0);
+    const limit = Number(query.limit) || entities.length;
+    const next = start + limit < entities.length ? String(start + limit) : undefined;
+    const page = entities.slice(start, start + limit);
+    return { data: { entities: page, ...(next && { cursor: next }) } };
+  };
+
+  const api = {
+    async GET(
+      path: string,
+      init?: { params?: { path?: { id?: string }; query?: Record<string, unknown> } }
+    ): Promise<ApiResult> {
+      const id = init?.params?.path?.id;
+      calls.push(`GET ${path.replace('{id}', id ?? '')}`);
+      if (path === '/collections/{id}/entities') {
+        return listCollection(id ?? '', init?.params?.query);
+      }
+      const entity = id ? stored(id) : undefined;
+      return entity ? { data: entity } : { error: { error: `Entity ${id} not found`, status: 404 } };
+    },
+
+    async PUT(
+      path: string,
+      init?: { params?: { path?: { id?: string } }; body?: UpdateBody }
+    ): Promise<ApiResult> {
+      const id = init?.params?.path?.id ?? '';
+      calls.push(`PUT ${path.replace('{id}', id)}`);
+
+      updateAttempts += 1;
+      const scripted = options.onUpdate?.(init?.body, updateAttempts);
+      if (scripted) return scripted;
+
+      const entity = stored(id);
+      if (!entity) return { error: { error: `Entity ${id} not found`, status: 404 } };
+      if (init?.body?.expect_tip && init.body.expect_tip !== entity.cid) {
+        return { error: { error: 'Entity was modified', status: 409 } };
+      }
+
+      const { cid: _, ...current } = entity;
+      store.set(id, {
+        ...current,
+        properties: { ...current.properties, ...(init?.body?.properties ?? {}) },
+        ...(init?.body?.relationships_add && {
+          relationships: [
+            ...(((entity as FakeTarget).relationships as unknown[] | undefined) ?? []),
+            ...init.body.relationships_add,
+          ],
+        }),
+      });
+      tips.set(id, (tips.get(id) ?? 0) + 1);
+      return { data: stored(id) };
+    },
+
+    async DELETE(path: string, init?: { params?: { path?: { id?: string } } }): Promise<ApiResult> {
+      const id = init?.params?.path?.id ?? '';
+      calls.push(`DELETE ${path.replace('{id}', id)}`);
+      return store.delete(id)
+        ? { data: { id, deleted: true } }
+        : { error: { error: `Entity ${id} not found`, status: 404 } };
+    },
+
+    async POST(path: string, init?: { body?: CreateBody }): Promise<ApiResult> {
+      calls.push(`POST ${path}`);
+      if (path !== '/entities') {
+        return { error: { error: `Not implemented in fake: POST ${path}` } };
+      }
+
+      createAttempts += 1;
+      const scripted = options.onCreate?.(init?.body, createAttempts);
+      if (scripted) return scripted;
+
+      nextId += 1;
+      const entity: CreatedEntity = {
+        id: `out_${nextId}`,
+        type: init?.body?.type ?? '',
+        collection: init?.body?.collection,
+        properties: init?.body?.properties ?? {},
+        relationships: init?.body?.relationships ?? [],
+      };
+      created.push(entity);
+      store.set(entity.id, entity);
+      return { data: entity };
+    },
+  };
+
+  const job = {
+    request,
+    isWorkflow: options.isWorkflow ?? false,
+    batchContext: options.batchContext ?? null,
+    client: { api },
+    log: {
+      info: capture('info'),
+      success: capture('success'),
+      warning: capture('warning'),
+      error: capture('error'),
+    },
+    async fetchTarget() {
+      calls.push('fetchTarget');
+      if (typeof options.target === 'function') return options.target();
+      if (!options.target) throw new Error('No target scripted for fake job');
+      return options.target;
+    },
+    acceptResponse: { accepted: true, job_id: request.job_id },
+    get logId() {
+      return logId;
+    },
+    run: async (fn: () => Promise<string[]>) => {
+      logId = `log_${request.job_id}`;
+      const outputIds = await fn();
+      await options.onHandoff?.(outputIds);
+    },
+  } as unknown as KladosJob;
+
+  return {
+    job,
+    request,
+    created,
+    logs,
+    calls,
+    stored,
+
+    expectCreated(match) {
+      const entity = created.find(
+        (e) =>
+          (!match.type || e.type === match.type) &&
+          Object.entries(match.properties ?? {}).every(([k, v]) => e.properties[k] === v)
+      );
+      expect(entity, `No created entity matching ${JSON.stringify(match)}`).toBeDefined();
+      return entity!;
+    },
+
+    expectLog(level, textContains) {
+      const entry = logs.find((l) => l.level === level && l.message.includes(textContains));
+      expect(
+        entry,
+        `No ${level} log containing "${textContains}". Logged: ${JSON.stringify(logs.map((l) => `[${l.level}] ${l.message}`))}`
+      ).toBeDefined();
+      return entry!;
+    },
+
+    messages(level) {
+      return logs.filter((l) => !level || l.level === level).map((l) => l.message);
+    },
+  };
+}
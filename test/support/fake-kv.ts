@@ -0,0 +1,62 @@
+/**
+ * In-memory KVNamespace for offline tests
+ *
+ * Supports the subset of the KV API the worker uses: get (text/json), put
+ * (with expirationTtl), delete and list (with prefix).
+ */
+
+interface StoredValue {
+  value: string;
+  expiresAt?: number;
+}
+
+export interface FakeKV extends KVNamespace {
+  /** Raw stored values, by key */
+  readonly data: Map<string, StoredValue>;
+}
+
+export function createFakeKV(): FakeKV {
+  const data = new Map<string, StoredValue>();
+
+  const read = (key: string): string | null => {
+    const stored = data.get(key);
+    if (!stored) return null;
+    if (stored.expiresAt !== undefined && stored.expiresAt <= Date.now()) {
+      data.delete(key);
+      return null;
+    }
+    return stored.value;
+  };
+
+  const kv = {
+    data,
+
+    async get(key: string, options?: unknown) {
+      const value = read(key);
+      const type = typeof options === 'string' ? options : (options as { type?: string })?.type;
+      return value !== null && type === 'json' ? JSON.parse(value) : value;
+    },
+
+    async put(key: string, value: string, options?: { expirationTtl?: number }) {
+      data.set(key, {
+        value,
+        expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined,
+      });
+    },
+
+    async delete(key: string) {
+      data.delete(key);
+    },
+
+    async list(options?: { prefix?: string; limit?: number; cursor?: string }) {
+      const keys = [...data.keys()]
+        .filter((key) => read(key) !== null && key.startsWith(options?.prefix ?? ''))
+        .sort()
+        .slice(0, options?.limit ?? 1000)
+        .map((name) => ({ name }));
+      return { keys, list_complete: true, cacheStatus: null };
+    },
+  };
+
+  return kv as unknown as FakeKV;
+}
@@ -0,0 +1,179 @@
+/**
+ * Offline worker harness
+ *
+ * Runs the worker's Hono app in-process against a FakeArkeApi:
+ * - Routes fetch calls for FAKE_API_BASE to the fake (everything else is untouched)
+ * - Dispatches signed /process requests straight to `app.request`
+ * - Collects waitUntil promises so tests can wait for background jobs
+ *
+ * Usage:
+ *   const harness = createHarness();
+ *   const target = harness.api.seed({ type: 'test_entity', collection, properties });
+ *   const result = await harness.invoke({ targetEntity: target.id, targetCollection, confirm: true });
+ *   const log = await harness.waitForKladosLog(result.job_collection!);
+ *   harness.restore();
+ */
+
+import { vi } from 'vitest';
+import type { KladosRequest } from '@arke-institute/rhiza';
+import type { assertLogCompleted } from '@arke-institute/klados-testing';
+import { app } from '../../src/index';
+import { signRequest } from '../../src/auth';
+import type { Env } from '../../src/types';
+import { FakeArkeApi, FAKE_API_BASE, type FakeEntity } from './fake-arke';
+
+export const TEST_SIGNING_SECRET = 'test-signing-secret';
+export const TEST_KLADOS_ID = 'klados_test';
+
+/**
+ * A klados_log from the fake API, typed for the klados-testing assertions
+ */
+export type KladosLogEntity = FakeEntity & Parameters<typeof assertLogCompleted>[0];
+
+export interface InvokeOptions {
+  kladosId?: string;
+  targetEntity?: string;
+  targetEntities?: string[];
+  targetCollection: string;
+  jobCollection?: string;
+  input?: Record<string, unknown>;
+  confirm: boolean;
+}
+
+export interface InvokeResult {
+  status: 'started' | 'pending_confirmation' | 'failed';
+  job_id?: string;
+  job_collection?: string;
+  error?: string;
+}
+
+export interface WorkerHarness {
+  api: FakeArkeApi;
+  env: Env;
+  /** POST a signed KladosRequest to /process */
+  dispatch(request: KladosRequest): Promise<Response>;
+  /** Signed GET against the worker (e.g. /jobs/:jobId) */
+  get(path: string): Promise<Response>;
+  /** POST a signed KladosRequest to /process/dry-run */
+  dryRun(request: KladosRequest): Promise<Response>;
+  /** POST a signed cancellation for a job */
+  cancel(jobId: string): Promise<Response>;
+  /** Invoke the klados through the fake API, like a user would */
+  invoke(options: InvokeOptions): Promise<InvokeResult>;
+  /** Track background work, like the worker's waitUntil */
+  waitUntil(promise: Promise<unknown>): void;
+  /** Wait for all waitUntil work (including work it schedules) */
+  settle(): Promise<void>;
+  /** Settle, then return the klados_log in a job collection */
+  waitForKladosLog(jobCollectionId: string): Promise<KladosLogEntity>;
+  /** Restore the real fetch */
+  restore(): void;
+}
+
+/**
+ * Create a harness with a fresh fake API
+ *
+ * @param envOverrides - Extra or replacement bindings for the worker
+ */
+export function createHarness(envOverrides: Partial<Env> = {}): WorkerHarness {
+  const api = new FakeArkeApi();
+  const pending: Promise<unknown>[] = [];
+
+  const env: Env = {
+    AGENT_ID: TEST_KLADOS_ID,
+    AGENT_VERSION: '0.0.0-test',
+    ARKE_AGENT_KEY: 'ak_test',
+    ARKE_SIGNING_SECRET: TEST_SIGNING_SECRET,
+    ...envOverrides,
+  };
+
+  const waitUntil = (promise: Promise<unknown>) => {
+    pending.push(promise);
+  };
+
+  const ctx = {
+    waitUntil,
+    passThroughOnException: () => {},
+    props: {},
+  } as unknown as ExecutionContext;
+
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    if (request.url.startsWith(FAKE_API_BASE)) {
+      return api.fetch(request);
+    }
+    return realFetch(input, init);
+  });
+
+  const post = async (path: string, body: string) => {
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(await signRequest(TEST_SIGNING_SECRET, { method: 'POST', path, body })),
+    };
+    return app.request(path, { method: 'POST', body, headers }, env, ctx);
+  };
+
+  const dispatch = (request: KladosRequest) => post('/process', JSON.stringify(request));
+
+  api.dispatcher = dispatch;
+
+  const settle = async () => {
+    while (pending.length > 0) {
+      await Promise.allSettled(pending.splice(0));
+    }
+  };
+
+  return {
+    api,
+    env,
+    dispatch,
+    waitUntil,
+    settle,
+
+    async get(path) {
+      const headers = await signRequest(TEST_SIGNING_SECRET, { method: 'GET', path, body: '' });
+      return app.request(path, { method: 'GET', headers }, env, ctx);
+    },
+
+    dryRun(request) {
+      return post('/process/dry-run', JSON.stringify(request));
+    },
+
+    cancel(jobId) {
+      return post(`/cancel/${jobId}`, '');
+    },
+
+    async invoke(options) {
+      const res = await fetch(
+        `${FAKE_API_BASE}/kladoi/${options.kladosId ?? TEST_KLADOS_ID}/invoke`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            target_entity: options.targetEntity,
+            target_entities: options.targetEntities,
+            target_collection: options.targetCollection,
+            job_collection: options.jobCollection,
+            input: options.input,
+            confirm: options.confirm,
+          }),
+        }
+      );
+      return (await res.json()) as InvokeResult;
+    },
+
+    async waitForKladosLog(jobCollectionId) {
+      await settle();
+      const [log] = api.inCollection(jobCollectionId, 'klados_log');
+      if (!log) {
+        throw new Error(`No klados_log in ${jobCollectionId}`);
+      }
+      return log as KladosLogEntity;
+    },
+
+    restore() {
+      vi.unstubAllGlobals();
+    },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Offline rhiza workflow simulator
+ *
+ * Runs a rhiza flow against FakeArkeApi, with this worker serving its steps.
+ * Handoffs are KladosJob's own: when a job finishes, interpretThen invokes
+ * the next step through the fake (pass), creates a batch and invokes one job
+ * per output (scatter), or fills the job's batch slot and, once every slot is
+ * in, invokes the gather step (gather). The simulator seeds the rhiza, starts
+ * it, waits for every job, and reads back what happened:
+ * - `root`: the entry job, with its klados_log, outputs and the jobs it
+ *   handed off to, recursively (the log tree)
+ * - `batches`: batch entities created by scatters, with their slots
+ *
+ * Steps served by other kladoi can be stood in for with a ProcessJob. They
+ * run through KladosJob like this worker's jobs, so their handoffs are real
+ * too, but they skip /process (and its contract validation).
+ *
+ * Usage:
+ *   const sim = createWorkflowSimulator({
+ *     entry: 'split',
+ *     flow: {
+ *       split: { klados: { pi: 'klados_split' }, then: { scatter: 'each' } },
+ *       each: { klados: { pi: TEST_KLADOS_ID }, then: { gather: 'merge' } },
+ *       merge: { klados: { pi: 'klados_merge' }, then: { done: true } },
+ *     },
+ *     kladoi: { klados_split: splitJob, klados_merge: mergeJob },
+ *   });
+ *   const run = await sim.run({ targetEntity: target.id, targetCollection });
+ *   run.step('each').map((job) => job.status);
+ *   sim.restore();
+ */
+
+import { KladosJob, getKladosConfig, type KladosRequest } from '@arke-institute/rhiza';
+import { runJob } from '../../src/execute';
+import type { Env, ProcessJob } from '../../src/types';
+import {
+  FAKE_API_BASE,
+  type FakeArkeApi,
+  type FakeEntity,
+  type WorkerDispatcher,
+} from './fake-arke';
+import { createHarness, type KladosLogEntity, type WorkerHarness } from './harness';
+
+/** Entities KladosJob creates for its own bookkeeping, not outputs */
+const BOOKKEEPING_TYPES = ['klados_log', 'batch'];
+
+export type ThenSpec = { done: true } | { pass: string } | { scatter: string } | { gather: string };
+
+export interface FlowStep {
+  klados: { pi: string };
+  then: ThenSpec;
+}
+
+/**
+ * A rhiza flow definition, stored as the rhiza entity's properties
+ */
+export interface WorkflowDefinition {
+  label?: string;
+  version?: string;
+  /** Name of the first step */
+  entry: string;
+  flow: Record<string, FlowStep>;
+}
+
+export interface WorkflowSimulatorOptions extends WorkflowDefinition {
+  /** Stand-ins for kladoi other than this worker, by klados ID */
+  kladoi?: Record<string, ProcessJob>;
+  /** Extra or replacement bindings for the worker */
+  env?: Partial<Env>;
+}
+
+export interface WorkflowRunOptions {
+  targetEntity?: string;
+  targetEntities?: string[];
+  targetCollection: string;
+  input?: Record<string, unknown>;
+}
+
+/**
+ * One job of a run, and the jobs it handed off to
+ */
+export interface WorkflowJob {
+  job_id: string;
+  klados_id: string;
+  /** Step name (the last entry in the rhiza context's path) */
+  step?: string;
+  request: KladosRequest;
+  /** The klados_log the job wrote, if it got that far */
+  log?: KladosLogEntity;
+  /** The log's status */
+  status?: string;
+  /** Entities the job created, other than its log and batches */
+  outputs: FakeEntity[];
+  children: WorkflowJob[];
+}
+
+export interface WorkflowRun {
+  /** The entry job */
+  root: WorkflowJob;
+  /** Every job, in invocation order */
+  jobs: WorkflowJob[];
+  /** Batch entities created by scatters */
+  batches: FakeEntity[];
+  /** Jobs of a step, in invocation order */
+  step(name: string): WorkflowJob[];
+}
+
+export interface WorkflowSimulator {
+  harness: WorkerHarness;
+  api: FakeArkeApi;
+  /** The seeded rhiza entity */
+  rhiza: FakeEntity;
+  /** Start the flow, wait for every job, and collect the results */
+  run(options: WorkflowRunOptions): Promise<WorkflowRun>;
+  /** Restore the real fetch */
+  restore(): void;
+}
+
+interface RhizaContext {
+  id: string;
+  path?: string[];
+}
+
+/**
+ * Create a simulator with a fresh harness and the rhiza seeded
+ */
+export function createWorkflowSimulator(options: WorkflowSimulatorOptions): WorkflowSimulator {
+  const { kladoi = {}, env: envOverrides, ...definition } = options;
+  const harness = createHarness(envOverrides);
+  const { api } = harness;
+
+  const standIn =
+    (kladosId: string, process: ProcessJob): WorkerDispatcher =>
+    async (request) => {
+      const env: Env = { ...harness.env, AGENT_ID: kladosId };
+      const job = KladosJob.accept(request, getKladosConfig(env, request.network));
+      harness.waitUntil(runJob(job, env, { processJob: process }));
+      return Response.json(job.acceptResponse);
+    };
+
+  for (const [kladosId, process] of Object.entries(kladoi)) {
+    api.dispatchers.set(kladosId, standIn(kladosId, process));
+  }
+
+  const rhiza = api.seed({ type: 'rhiza', properties: { ...definition } });
+
+  const collect = (dispatched: FakeArkeApi['jobs']): WorkflowRun => {
+    const created = new Map<string, FakeEntity[]>();
+    for (const [entityId, jobId] of api.creators) {
+      const entity = api.entities.get(entityId);
+      if (entity) created.set(jobId, [...(created.get(jobId) ?? []), entity]);
+    }
+
+    const jobs = dispatched.map(({ request }): WorkflowJob => {
+      const entities = created.get(request.job_id) ?? [];
+      const log = entities.find((e) => e.type === 'klados_log') as KladosLogEntity | undefined;
+      const context = (request as { rhiza?: RhizaContext }).rhiza;
+      return {
+        job_id: request.job_id,
+        klados_id: (request as { klados_id?: string }).klados_id ?? '',
+        step: context?.path?.at(-1),
+        request,
+        log,
+        status: log?.properties.status as string | undefined,
+        outputs: entities.filter((e) => !BOOKKEEPING_TYPES.includes(e.type)),
+        children: [],
+      };
+    });
+
+    const byId = new Map(jobs.map((job) => [job.job_id, job]));
+    dispatched.forEach(({ parent }, i) => {
+      if (parent) byId.get(parent)?.children.push(jobs[i]);
+    });
+
+    const batches = jobs
+      .flatMap((job) => created.get(job.job_id) ?? [])
+      .filter((e) => e.type === 'batch');
+
+    return {
+      root: jobs[0],
+      jobs,
+      batches,
+      step: (name) => jobs.filter((job) => job.step === name),
+    };
+  };
+
+  return {
+    harness,
+    api,
+    rhiza,
+
+    async run(runOptions) {
+      const first = api.jobs.length;
+      const res = await fetch(`${FAKE_API_BASE}/rhizai/${rhiza.id}/invoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          target_entity: runOptions.targetEntity,
+          target_entities: runOptions.targetEntities,
+          target_collection: runOptions.targetCollection,
+          input: runOptions.input,
+          confirm: true,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to start rhiza ${rhiza.id}: ${await res.text()}`);
+      }
+
+      await harness.settle();
+      return collect(api.jobs.slice(first));
+    },
+
+    restore() {
+      harness.restore();
+    },
+  };
+}
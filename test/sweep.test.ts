@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the scheduled sweep
+ *
+ * Runs against the fake Arke API with sweep state in an in-memory KV,
+ * recording invocations instead of dispatching them to the worker.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { KladosRequest } from '@arke-institute/rhiza';
+import { sweepKlados, sweepOptions, type SweepOptions } from '../src/sweep';
+import { KLADOI, hostKlados } from '../src/kladoi';
+import { FakeArkeApi, type FakeEntity } from './support/fake-arke';
+import { createFakeKV } from './support/fake-kv';
+import type { Env } from '../src/types';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const KLADOS_ID = 'klados_test';
+
+const env = {
+  AGENT_ID: KLADOS_ID,
+  AGENT_VERSION: '1.0.0',
+  ARKE_AGENT_KEY: 'ak_test',
+} as Env;
+
+describe('sweep', () => {
+  let api: FakeArkeApi;
+  let collection: FakeEntity;
+  let entities: FakeEntity[];
+  let dispatched: KladosRequest[];
+  let options: SweepOptions;
+  let store: KVNamespace;
+
+  beforeEach(() => {
+    api = new FakeArkeApi();
+    store = createFakeKV();
+    dispatched = [];
+    api.dispatcher = async (request) => {
+      dispatched.push(request);
+      return new Response('{}');
+    };
+
+    collection = api.seed({ type: 'collection' });
+    entities = ['A', 'B', 'C'].map((title) =>
+      api.seed({ type: 'document', collection: collection.id, properties: { title } })
+    );
+
+    // B already has an output from this klados
+    api.seed({
+      type: 'processed_output',
+      collection: collection.id,
+      properties: { provenance: { klados_id: KLADOS_ID } },
+      relationships: [{ predicate: 'derived_from', peer: entities[1].id }],
+    });
+    api.seed({ type: 'klados_log', collection: collection.id });
+
+    options = { collections: [collection.id], maxJobs: 10, network: 'test' };
+  });
+
+  const sweep = (overrides: Partial<SweepOptions> = {}) =>
+    sweepKlados(api.client(), store, hostKlados(env, KLADOI[0]), { ...options, ...overrides });
+
+  const seedDocuments = (count: number) =>
+    Array.from({ length: count }, (_, i) =>
+      api.seed({ type: 'document', collection: collection.id, properties: { title: `D${i}` } })
+    );
+
+  it('should invoke the klados on entities without an output', async () => {
+    const result = await sweep();
+
+    expect(result).toEqual({
+      klados_id: KLADOS_ID,
+      invoked: [entities[0].id, entities[2].id],
+      failed: [],
+    });
+    expect(dispatched.map((r) => r.target_entity)).toEqual([entities[0].id, entities[2].id]);
+    expect(dispatched[0].target_collection).toBe(collection.id);
+  });
+
+  it('should cap each run and resume where the last one stopped', async () => {
+    expect((await sweep({ maxJobs: 1 })).invoked).toEqual([entities[0].id]);
+    expect((await sweep({ maxJobs: 1 })).invoked).toEqual([entities[2].id]);
+    // Reached the end of the collection, so the next run starts over
+    expect((await sweep({ maxJobs: 1 })).invoked).toEqual([]);
+    // Both were invoked recently
+    expect((await sweep({ maxJobs: 1 })).invoked).toEqual([]);
+  });
+
+  it('should invoke targets again only if no output appeared within a day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      await sweep();
+      api.seed({
+        type: 'processed_output',
+        collection: collection.id,
+        properties: { provenance: { klados_id: KLADOS_ID } },
+        relationships: [{ predicate: 'derived_from', peer: entities[0].id }],
+      });
+
+      vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+      expect((await sweep()).invoked).toEqual([entities[2].id]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should record outputs across the collection before invoking anything', async () => {
+    const documents = seedDocuments(1150);
+    // The first document's output is listed pages after it
+    api.seed({
+      type: 'processed_output',
+      collection: collection.id,
+      properties: { provenance: { klados_id: KLADOS_ID } },
+      relationships: [{ predicate: 'derived_from', peer: entities[0].id }],
+    });
+
+    // Ten pages per run: the first run only records outputs
+    expect((await sweep({ maxJobs: 5 })).invoked).toEqual([]);
+    expect((await sweep({ maxJobs: 5 })).invoked).toEqual([
+      entities[2].id,
+      ...documents.slice(0, 4).map((d) => d.id),
+    ]);
+  });
+
+  it('should read each output only once when listings omit relationships', async () => {
+    api.listsRelationships = false;
+    const [output] = api.inCollection(collection.id, 'processed_output');
+    const reads = () => api.requests.filter((r) => r.path === `/entities/${output.id}`).length;
+
+    expect((await sweep()).invoked).toEqual([entities[0].id, entities[2].id]);
+    expect(reads()).toBe(1);
+
+    await sweep();
+    await sweep();
+    expect(reads()).toBe(1);
+    expect(dispatched.map((r) => r.target_entity)).not.toContain(entities[1].id);
+  });
+
+  it('should report failed invocations and retry them next run', async () => {
+    const dispatch = api.dispatcher;
+    api.dispatcher = async () => new Response('Unavailable', { status: 503 });
+
+    const result = await sweep();
+
+    expect(result.invoked).toEqual([]);
+    expect(result.failed).toEqual([entities[0].id, entities[2].id]);
+
+    api.dispatcher = dispatch;
+    expect((await sweep()).invoked).toEqual([entities[0].id, entities[2].id]);
+  });
+
+  it('should only run when SWEEP_COLLECTIONS is set', () => {
+    expect(sweepOptions(env)).toBeUndefined();
+    expect(
+      sweepOptions({ ...env, SWEEP_COLLECTIONS: 'col_1, col_2', SWEEP_MAX_JOBS: '5' })
+    ).toEqual({ collections: ['col_1', 'col_2'], maxJobs: 5, network: 'test' });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for updating entities in place
+ *
+ * Uses the fake KladosJob, whose PUT /entities/{id} honors expect_tip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { updateEntity } from '../src/update';
+import { createFakeJob, type FakeTarget } from './support/fake-job';
+
+const target: FakeTarget = {
+  id: 'ent_1',
+  type: 'test_entity',
+  properties: { title: 'Test Entity', tags: ['a'] },
+};
+
+const CONFLICT = { error: { error: 'Entity was modified', status: 409 } };
+
+describe('updateEntity', () => {
+  it('should merge properties into the entity', async () => {
+    const fake = createFakeJob({ target });
+
+    const cid = await updateEntity(fake.job, 'ent_1', { summary: 'Short' });
+
+    expect(fake.stored('ent_1')).toMatchObject({
+      cid,
+      properties: { title: 'Test Entity', summary: 'Short' },
+    });
+  });
+
+  it('should re-fetch and recompute the patch after a conflict', async () => {
+    const fake = createFakeJob({
+      target,
+      onUpdate: (_body, attempt) => (attempt === 1 ? CONFLICT : undefined),
+    });
+    let computed = 0;
+
+    await updateEntity<{ tags?: string[] }>(fake.job, 'ent_1', (current) => {
+      computed += 1;
+      return { tags: [...(current.tags ?? []), 'b'] };
+    });
+
+    expect(computed).toBe(2);
+    expect(fake.calls).toEqual([
+      'GET /entities/ent_1',
+      'PUT /entities/ent_1',
+      'GET /entities/ent_1',
+      'PUT /entities/ent_1',
+    ]);
+    expect(fake.stored('ent_1')?.properties.tags).toEqual(['a', 'b']);
+    fake.expectLog('info', 'modified concurrently');
+  });
+
+  it('should give up when every attempt conflicts', async () => {
+    const fake = createFakeJob({ target, onUpdate: () => CONFLICT });
+
+    await expect(
+      updateEntity(fake.job, 'ent_1', { summary: 'Short' }, { maxAttempts: 3 })
+    ).rejects.toMatchObject({ code: 'PROCESSING_ERROR', retryable: true });
+    expect(fake.calls.filter((call) => call.startsWith('PUT'))).toHaveLength(3);
+  });
+
+  it('should fail with NOT_FOUND for a missing entity', async () => {
+    const fake = createFakeJob({ target });
+
+    await expect(updateEntity(fake.job, 'ent_missing', {})).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+});
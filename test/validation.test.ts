@@ -0,0 +1,125 @@
+/**
+ * Unit tests for contract validation
+ *
+ * Checks requests, fetched targets and output types against contracts built
+ * inline, so they don't depend on this worker's agent.json.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KladosErrorCode } from '@arke-institute/rhiza';
+import { assertProduces, validateRequest, validateTarget } from '../src/validation';
+import type { AgentContract } from '../src/types';
+
+function agent(
+  cardinality: 'one' | 'many',
+  accepts: string[] = ['*'],
+  produces: string[] = ['*']
+): AgentContract {
+  return {
+    accepts: { types: accepts, cardinality },
+    produces: { types: produces, cardinality: 'one' },
+  };
+}
+
+const BASE = { job_id: 'job_1', target_collection: 'col_target', job_collection: 'col_job' };
+
+function fields(issues: Array<{ field: string }>): string[] {
+  return issues.map((issue) => issue.field);
+}
+
+describe('validateRequest', () => {
+  it('should accept a complete request for cardinality "one"', () => {
+    expect(validateRequest({ ...BASE, target_entity: 'ent_1' }, agent('one'))).toEqual([]);
+  });
+
+  it('should accept a complete request for cardinality "many"', () => {
+    const body = { ...BASE, target_entities: ['ent_1', 'ent_2'] };
+    expect(validateRequest(body, agent('many'))).toEqual([]);
+  });
+
+  it('should reject bodies that are not JSON objects', () => {
+    for (const body of [null, 'job', ['job_1']]) {
+      expect(fields(validateRequest(body, agent('one')))).toEqual(['']);
+    }
+  });
+
+  it('should report every missing or empty required field', () => {
+    const issues = validateRequest({ job_id: '', target_entity: 'ent_1' }, agent('one'));
+    expect(fields(issues)).toEqual(['job_id', 'target_collection', 'job_collection']);
+  });
+
+  it('should require target_entity and refuse target_entities for cardinality "one"', () => {
+    const issues = validateRequest({ ...BASE, target_entities: ['ent_1'] }, agent('one'));
+    expect(fields(issues)).toEqual(['target_entity', 'target_entities']);
+  });
+
+  it('should require target_entities and refuse target_entity for cardinality "many"', () => {
+    const issues = validateRequest({ ...BASE, target_entity: 'ent_1' }, agent('many'));
+    expect(fields(issues)).toEqual(['target_entities', 'target_entity']);
+  });
+
+  it('should reject empty or non-ID target_entities', () => {
+    const empty = validateRequest({ ...BASE, target_entities: [] }, agent('many'));
+    const invalid = validateRequest({ ...BASE, target_entities: ['ent_1', 2] }, agent('many'));
+
+    expect(empty).toEqual([
+      { field: 'target_entities', message: 'Required for cardinality "many"' },
+    ]);
+    expect(invalid).toEqual([
+      { field: 'target_entities', message: 'Must contain only entity IDs' },
+    ]);
+  });
+
+  it('should accept the known networks and reject others', () => {
+    const body = { ...BASE, target_entity: 'ent_1' };
+
+    expect(validateRequest({ ...body, network: 'test' }, agent('one'))).toEqual([]);
+    expect(validateRequest({ ...body, network: 'main' }, agent('one'))).toEqual([]);
+    expect(fields(validateRequest({ ...body, network: 'prod' }, agent('one')))).toEqual([
+      'network',
+    ]);
+  });
+});
+
+describe('validateTarget', () => {
+  const target = { id: 'ent_1', type: 'document', properties: { title: 'Doc', content: '' } };
+
+  it('should accept targets of an accepted type with their required properties', () => {
+    expect(() => validateTarget(target, ['title'], agent('one', ['document']))).not.toThrow();
+    expect(() => validateTarget(target, [], agent('one', ['*']))).not.toThrow();
+  });
+
+  it('should reject targets of a type not accepted', () => {
+    expect(() => validateTarget(target, [], agent('one', ['image']))).toThrow(
+      expect.objectContaining({
+        code: KladosErrorCode.INVALID_INPUT,
+        message: expect.stringContaining("type 'document'"),
+      })
+    );
+  });
+
+  it('should reject targets missing or with empty required properties', () => {
+    expect(() => validateTarget(target, ['title', 'content', 'url'], agent('one'))).toThrow(
+      expect.objectContaining({
+        code: KladosErrorCode.INVALID_INPUT,
+        message: expect.stringContaining('missing required properties: content, url'),
+      })
+    );
+  });
+});
+
+describe('assertProduces', () => {
+  it('should allow declared output types and any type under "*"', () => {
+    expect(() => assertProduces('summary', agent('one', ['*'], ['summary']))).not.toThrow();
+    expect(() => assertProduces('anything', agent('one', ['*'], ['*']))).not.toThrow();
+  });
+
+  it('should reject undeclared output types', () => {
+    expect(() => assertProduces('image', agent('one', ['*'], ['summary']))).toThrow(
+      expect.objectContaining({
+        code: KladosErrorCode.VALIDATION_ERROR,
+        message: expect.stringContaining("Output type 'image'"),
+      })
+    );
+  });
+});
@@ -1,120 +1,62 @@
 /**
- * E2E Test for Klados Worker
+ * Offline Test for Klados Worker
  *
- * This test invokes your klados worker against the Arke API and verifies:
+ * Runs the worker in-process against a fake Arke API (see test/support) and verifies:
  * 1. The worker accepts and processes jobs correctly
  * 2. Output entities are created as expected
  * 3. Log entries are properly recorded
  *
- * Prerequisites:
- * 1. Deploy your worker: npm run deploy
- * 2. Register the klados: npm run register
- * 3. Set environment variables (see below)
- *
- * Environment variables:
- *   ARKE_USER_KEY   - Your Arke user API key (uk_...)
- *   KLADOS_ID       - The klados entity ID from registration
- *   ARKE_API_BASE   - API base URL (default: https://arke-v1.arke.institute)
- *   ARKE_NETWORK    - Network to use (default: test)
+ * No network access or credentials are needed. For tests against the live
+ * API, see test/e2e.test.ts.
  *
  * Usage:
- *   ARKE_USER_KEY=uk_... KLADOS_ID=klados_... npm test
+ *   npm test
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import {
-  configureTestClient,
-  createCollection,
-  createEntity,
-  getEntity,
-  deleteEntity,
-  invokeKlados,
-  waitForKladosLog,
-  assertLogCompleted,
-  assertLogHasMessages,
-  log,
-} from '@arke-institute/klados-testing';
-
-// =============================================================================
-// Configuration
-// =============================================================================
-
-const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
-const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-const NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
-const KLADOS_ID = process.env.KLADOS_ID;
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { assertLogCompleted, assertLogHasMessages } from '@arke-institute/klados-testing';
+import { app } from '../src/index';
+import { createHarness, type WorkerHarness } from './support/harness';
+import { createFakeKV } from './support/fake-kv';
+import { FAKE_API_BASE, type FakeEntity } from './support/fake-arke';
+import { getJobStatus, type JobStatusRecord } from '../src/status';
+import { getJobRecord } from '../src/idempotency';
+import { resetLocalMetrics } from '../src/metrics';
+import { hashInputs, type Provenance } from '../src/provenance';
+import type { DryRunPlan } from '../src/dryrun';
+import type { KladosRequest } from '@arke-institute/rhiza';
 
 // =============================================================================
 // Test Suite
 // =============================================================================
 
-describe('klados-worker', () => {
-  // Test fixtures
-  let targetCollection: { id: string };
-  let testEntity: { id: string };
-  let jobCollectionId: string; // Returned by API (not created by us)
-
-  // Skip tests if environment not configured
-  beforeAll(() => {
-    if (!ARKE_USER_KEY) {
-      console.warn('Skipping tests: ARKE_USER_KEY not set');
-      return;
-    }
-    if (!KLADOS_ID) {
-      console.warn('Skipping tests: KLADOS_ID not set');
-      return;
-    }
-
-    // Configure the test client
-    configureTestClient({
-      apiBase: ARKE_API_BASE,
-      userKey: ARKE_USER_KEY,
-      network: NETWORK,
-    });
-  });
+describe('klados-worker (offline)', () => {
+  let harness: WorkerHarness;
+  let targetCollection: FakeEntity;
+  let testEntity: FakeEntity;
 
   // Create test fixtures
-  beforeAll(async () => {
-    if (!ARKE_USER_KEY || !KLADOS_ID) return;
-
-    log('Creating test fixtures...');
+  beforeEach(() => {
+    harness = createHarness();
 
-    // Create target collection - this is where your entities live and work happens
-    // Note: We do NOT create a job collection - the API creates one automatically
-    // and returns it in the invoke response. Job collections are ONLY for logs.
-    targetCollection = await createCollection({
-      label: `Test Target ${Date.now()}`,
-      description: 'Target collection for worker test',
+    targetCollection = harness.api.seed({
+      type: 'collection',
+      properties: { label: 'Test Target' },
     });
-    log(`Created target collection: ${targetCollection.id}`);
 
-    // Create test entity
-    testEntity = await createEntity({
+    testEntity = harness.api.seed({
       type: 'test_entity',
+      collection: targetCollection.id,
       properties: {
         title: 'Test Entity',
         content: 'Test content for processing',
         created_at: new Date().toISOString(),
       },
-      collection: targetCollection.id,
     });
-    log(`Created test entity: ${testEntity.id}`);
   });
 
-  // Cleanup test fixtures
-  afterAll(async () => {
-    if (!ARKE_USER_KEY || !KLADOS_ID) return;
-
-    log('Cleaning up test fixtures...');
-
-    try {
-      if (testEntity?.id) await deleteEntity(testEntity.id);
-      if (targetCollection?.id) await deleteEntity(targetCollection.id);
-      // Note: We don't clean up jobCollectionId - it's owned by the API
-      log('Cleanup complete');
-    } catch (e) {
-      log(`Cleanup error (non-fatal): ${e}`);
-    }
+  afterEach(() => {
+    harness.restore();
   });
 
   // ==========================================================================
@@ -122,16 +64,7 @@ describe('klados-worker', () => {
   // ==========================================================================
 
   it('should process entity and create output', async () => {
-    if (!ARKE_USER_KEY || !KLADOS_ID) {
-      console.warn('Test skipped: missing environment variables');
-      return;
-    }
-
-    // Invoke the klados
-    // Note: We don't pass jobCollection - the API creates one and returns it
-    log('Invoking klados...');
-    const result = await invokeKlados({
-      kladosId: KLADOS_ID,
+    const result = await harness.invoke({
       targetEntity: testEntity.id,
       targetCollection: targetCollection.id,
       confirm: true,
@@ -141,20 +74,11 @@ describe('klados-worker', () => {
     expect(result.job_id).toBeDefined();
     expect(result.job_collection).toBeDefined();
 
-    jobCollectionId = result.job_collection!;
-    log(`Job started: ${result.job_id}`);
-    log(`Job collection: ${jobCollectionId}`);
-
     // Wait for completion
-    log('Waiting for job completion...');
-    const kladosLog = await waitForKladosLog(jobCollectionId, {
-      timeout: 30000,
-      pollInterval: 2000,
-    });
+    const kladosLog = await harness.waitForKladosLog(result.job_collection!);
 
     // Verify log completed successfully
     assertLogCompleted(kladosLog);
-    log(`Job completed with status: ${kladosLog.properties.status}`);
 
     // Verify expected log messages
     assertLogHasMessages(kladosLog, [
@@ -162,30 +86,315 @@ describe('klados-worker', () => {
       { textContains: 'Fetched target' },
       { textContains: 'Processing' },
     ]);
-    log('Log messages verified');
 
-    // Log all messages for debugging
-    for (const msg of kladosLog.properties.log_data.messages) {
-      log(`  [${msg.level}] ${msg.message}`);
-    }
+    // Verify the output entity
+    const [output] = harness.api.inCollection(targetCollection.id, 'processed_output');
+    expect(output).toBeDefined();
+    expect(output.properties.source_id).toBe(testEntity.id);
+    expect(output.relationships).toContainEqual(
+      expect.objectContaining({ predicate: 'derived_from', peer: testEntity.id })
+    );
+  });
+
+  it('should record provenance on outputs', async () => {
+    const result = await harness.invoke({
+      targetEntity: testEntity.id,
+      targetCollection: targetCollection.id,
+      confirm: true,
+    });
+    const kladosLog = await harness.waitForKladosLog(result.job_collection!);
+
+    const [output] = harness.api.inCollection(targetCollection.id, 'processed_output');
+    expect(output.properties.provenance).toEqual({
+      klados_id: expect.any(String),
+      agent_version: harness.env.AGENT_VERSION,
+      network: expect.any(String),
+      job_id: result.job_id!,
+      input_hash: await hashInputs({ [testEntity.id]: testEntity.properties }),
+    } satisfies Provenance);
+    expect(output.relationships).toContainEqual(
+      expect.objectContaining({ predicate: 'generated_by', peer: kladosLog.id })
+    );
   });
 
   it('should handle preview mode (confirm=false)', async () => {
-    if (!ARKE_USER_KEY || !KLADOS_ID) {
-      console.warn('Test skipped: missing environment variables');
-      return;
-    }
-
-    // Preview invocation (confirm=false)
-    const preview = await invokeKlados({
-      kladosId: KLADOS_ID,
+    const preview = await harness.invoke({
       targetEntity: testEntity.id,
       targetCollection: targetCollection.id,
       confirm: false,
     });
 
-    // Preview should return pending_confirmation status
+    // Preview should return pending_confirmation status and start nothing
     expect(preview.status).toBe('pending_confirmation');
-    log(`Preview result: ${preview.status}`);
+    await harness.settle();
+    expect(harness.api.inCollection(targetCollection.id, 'processed_output')).toHaveLength(0);
+  });
+
+  it('should reject a request that breaks the contract with 400 and start nothing', async () => {
+    const res = await harness.dispatch({
+      job_id: 'job_invalid',
+      target_entities: [testEntity.id],
+      target_collection: targetCollection.id,
+      job_collection: harness.api.seed({ type: 'collection' }).id,
+      api_base: FAKE_API_BASE,
+      network: 'test',
+    } as KladosRequest);
+    await harness.settle();
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: 'INVALID_INPUT',
+      issues: [
+        { field: 'target_entity', message: 'Required for cardinality "one"' },
+        { field: 'target_entities', message: 'Not accepted for cardinality "one"' },
+      ],
+    });
+    expect(harness.api.requests.filter((r) => r.method !== 'GET')).toEqual([]);
+  });
+
+  it('should plan writes without making them in dry-run mode', async () => {
+    const jobCollection = harness.api.seed({ type: 'collection' });
+    const res = await harness.dryRun({
+      job_id: 'job_dry_run',
+      target_entity: testEntity.id,
+      target_collection: targetCollection.id,
+      job_collection: jobCollection.id,
+      api_base: FAKE_API_BASE,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      network: 'test',
+    } as KladosRequest);
+    expect(res.status).toBe(200);
+
+    const plan = (await res.json()) as DryRunPlan;
+    expect(plan.error).toBeUndefined();
+    expect(plan.entities).toEqual([
+      expect.objectContaining({ type: 'processed_output', collection: targetCollection.id }),
+    ]);
+    expect(plan.output_ids).toEqual([plan.entities[0].id]);
+    expect(plan.relationships).toContainEqual({
+      from: plan.entities[0].id,
+      predicate: 'derived_from',
+      to: testEntity.id,
+    });
+    expect(plan.logs.map((log) => log.message)).toContain('Processing entity...');
+
+    // Nothing was written: no output, no klados_log
+    expect(harness.api.requests.filter((r) => r.method !== 'GET')).toEqual([]);
+    expect(harness.api.inCollection(jobCollection.id)).toHaveLength(0);
+  });
+
+  it('should report job status and timings', async () => {
+    const result = await harness.invoke({
+      targetEntity: testEntity.id,
+      targetCollection: targetCollection.id,
+      confirm: true,
+    });
+    await harness.settle();
+
+    const res = await harness.get(`/jobs/${result.job_id}`);
+    expect(res.status).toBe(200);
+
+    const status = (await res.json()) as JobStatusRecord;
+    expect(status.phase).toBe('done');
+    expect(status.output_ids).toHaveLength(1);
+    expect(status.phases.map((p) => p.phase)).toEqual([
+      'accepted',
+      'fetching_target',
+      'processing',
+      'creating_outputs',
+      'handing_off',
+    ]);
+    expect(status.phases.every((p) => p.duration_ms !== undefined)).toBe(true);
+  });
+
+  it('should expose job and API metrics', async () => {
+    resetLocalMetrics();
+    harness.env.METRICS_TOKEN = 'metrics-token';
+
+    const result = await harness.invoke({
+      targetEntity: testEntity.id,
+      targetCollection: targetCollection.id,
+      confirm: true,
+    });
+    await harness.settle();
+    expect(result.status).toBe('started');
+
+    const headers = { Authorization: 'Bearer metrics-token' };
+    const res = await app.request('/metrics', { headers }, harness.env);
+    const lines = (await res.text()).split('\n');
+
+    expect(res.status).toBe(200);
+    expect(lines).toContain('klados_jobs_accepted_total{network="test"} 1');
+    expect(lines).toContain('klados_jobs_succeeded_total{network="test"} 1');
+    expect(lines).toContain('klados_outputs_created_total{network="test"} 1');
+    expect(lines).toContain('klados_job_duration_seconds_count{network="test",outcome="succeeded"} 1');
+    expect(lines.some((line) => line.startsWith('klados_api_requests_total{method="POST"'))).toBe(
+      true
+    );
+    expect(lines.some((line) => line.startsWith('klados_jobs_failed_total'))).toBe(false);
+  });
+
+  it('should refuse metrics without a valid token', async () => {
+    const disabled = await app.request('/metrics', {}, harness.env);
+    harness.env.METRICS_TOKEN = 'metrics-token';
+    const unauthorized = await app.request(
+      '/metrics',
+      { headers: { Authorization: 'Bearer wrong' } },
+      harness.env
+    );
+
+    expect(disabled.status).toBe(404);
+    expect(unauthorized.status).toBe(401);
+  });
+
+  it('should list hosted kladoi in /health', async () => {
+    const res = await app.request('/health', {}, harness.env);
+    const body = (await res.json()) as { agent_id: string; kladoi: Array<{ name: string }> };
+
+    expect(res.status).toBe(200);
+    expect(body.agent_id).toBe(harness.env.AGENT_ID);
+    expect(body.kladoi.map((k) => k.name)).toEqual(['default']);
+  });
+
+  describe('with JOB_STATE', () => {
+    beforeEach(() => {
+      harness.restore();
+      harness = createHarness({ JOB_STATE: createFakeKV() });
+      targetCollection = harness.api.seed({ type: 'collection' });
+      testEntity = harness.api.seed({
+        type: 'test_entity',
+        collection: targetCollection.id,
+        properties: { title: 'Test Entity' },
+      });
+    });
+
+    it('should cancel a running job without creating outputs', async () => {
+      const result = await harness.invoke({
+        targetEntity: testEntity.id,
+        targetCollection: targetCollection.id,
+        confirm: true,
+      });
+
+      // The job is still in its processing step
+      const res = await harness.cancel(result.job_id!);
+      expect(res.status).toBe(202);
+
+      const kladosLog = await harness.waitForKladosLog(result.job_collection!);
+      expect(JSON.stringify(kladosLog.properties)).toContain('was cancelled');
+      expect(harness.api.inCollection(targetCollection.id, 'processed_output')).toHaveLength(0);
+    });
+
+    describe('duplicate deliveries', () => {
+      let request: KladosRequest;
+
+      beforeEach(() => {
+        request = {
+          job_id: 'job_duplicate',
+          target_entity: testEntity.id,
+          target_collection: targetCollection.id,
+          job_collection: harness.api.seed({ type: 'collection' }).id,
+          api_base: FAKE_API_BASE,
+          expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          network: 'test',
+        } as KladosRequest;
+        vi.useFakeTimers({ toFake: ['Date'] });
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      /** Deliver the request again, signed anew like Arke's retries */
+      const redeliver = () => {
+        vi.setSystemTime(Date.now() + 1000);
+        return harness.dispatch(request);
+      };
+
+      it('should return the stored acceptance for a finished job and start nothing', async () => {
+        const first = await harness.dispatch(request);
+        const accepted = await first.json();
+        await harness.settle();
+        const writes = harness.api.requests.filter((r) => r.method !== 'GET').length;
+
+        const duplicate = await redeliver();
+        await harness.settle();
+
+        expect(duplicate.status).toBe(200);
+        expect(await duplicate.json()).toEqual(accepted);
+        expect(harness.api.requests.filter((r) => r.method !== 'GET')).toHaveLength(writes);
+        expect(harness.api.inCollection(targetCollection.id, 'processed_output')).toHaveLength(1);
+        expect(harness.api.inCollection(request.job_collection, 'klados_log')).toHaveLength(1);
+      });
+
+      it('should return the stored acceptance for a job still in flight', async () => {
+        const first = await harness.dispatch(request);
+        const accepted = await first.json();
+
+        const duplicate = await redeliver();
+        await harness.settle();
+
+        expect(await duplicate.json()).toEqual(accepted);
+        expect(harness.api.inCollection(targetCollection.id, 'processed_output')).toHaveLength(1);
+        expect(harness.api.inCollection(request.job_collection, 'klados_log')).toHaveLength(1);
+        expect((await getJobRecord(harness.env.JOB_STATE!, 'job_duplicate'))?.status).toBe('done');
+      });
+    });
+  });
+
+  describe('in queue mode', () => {
+    let queued: KladosRequest[];
+    let sendFails: boolean;
+
+    beforeEach(() => {
+      queued = [];
+      sendFails = false;
+      harness.restore();
+      harness = createHarness({
+        JOB_STATE: createFakeKV(),
+        EXECUTION_MODE: 'queue',
+        JOB_QUEUE: {
+          send: async (request: KladosRequest) => {
+            if (sendFails) throw new Error('Queue unavailable');
+            queued.push(request);
+          },
+        } as unknown as Queue<KladosRequest>,
+      });
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should record nothing when the job cannot be queued, so a retry queues it', async () => {
+      const jobCollection = harness.api.seed({ type: 'collection' });
+      const request = {
+        job_id: 'job_queued',
+        target_entity: testEntity.id,
+        target_collection: targetCollection.id,
+        job_collection: jobCollection.id,
+        api_base: FAKE_API_BASE,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        network: 'test',
+      } as KladosRequest;
+
+      sendFails = true;
+      const failed = await harness.dispatch(request);
+
+      expect(failed.status).toBe(503);
+      expect(await getJobRecord(harness.env.JOB_STATE!, 'job_queued')).toBeNull();
+      expect(await getJobStatus(harness.env, 'job_queued')).toBeNull();
+
+      // Arke signs its retry anew
+      sendFails = false;
+      vi.setSystemTime(Date.now() + 1000);
+      const retried = await harness.dispatch(request);
+
+      expect(retried.status).toBe(200);
+      expect(queued.map((r) => r.job_id)).toEqual(['job_queued']);
+      expect(await getJobRecord(harness.env.JOB_STATE!, 'job_queued')).toMatchObject({
+        status: 'accepted',
+      });
+    });
   });
 });
@@ -0,0 +1,156 @@
+/**
+ * Workflow Tests
+ *
+ * Runs the worker as steps of rhiza flows in the workflow simulator (see
+ * test/support/workflow.ts) and verifies pass, scatter and gather handoffs:
+ * which jobs run, what they receive, their batch slots, and the log tree.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { assertLogCompleted } from '@arke-institute/klados-testing';
+import { TEST_KLADOS_ID } from './support/harness';
+import { createWorkflowSimulator, type WorkflowSimulator } from './support/workflow';
+import type { FakeEntity } from './support/fake-arke';
+import type { ProcessJob } from '../src/types';
+
+const SPLIT_KLADOS_ID = 'klados_split';
+const MERGE_KLADOS_ID = 'klados_merge';
+
+/** Stand-in that splits its target into three parts */
+const splitJob: ProcessJob = async (job) => {
+  const ids: string[] = [];
+  for (let i = 1; i <= 3; i++) {
+    const { data, error } = await job.client.api.POST('/entities', {
+      body: {
+        type: 'part',
+        collection: job.request.target_collection,
+        properties: { title: `Part ${i}` },
+        relationships: [{ predicate: 'derived_from', peer: job.request.target_entity! }],
+      },
+    });
+    if (error || !data) throw new Error('Failed to create part');
+    ids.push(data.id);
+  }
+  return ids;
+};
+
+/** Stand-in that gathers its targets without producing anything */
+const mergeJob: ProcessJob = async () => [];
+
+function ids(entities: FakeEntity[]): string[] {
+  return entities.map((e) => e.id).sort();
+}
+
+describe('workflows', () => {
+  let sim: WorkflowSimulator;
+  let collection: FakeEntity;
+  let target: FakeEntity;
+
+  afterEach(() => {
+    sim.restore();
+  });
+
+  describe('pass', () => {
+    beforeEach(() => {
+      sim = createWorkflowSimulator({
+        entry: 'first',
+        flow: {
+          first: { klados: { pi: TEST_KLADOS_ID }, then: { pass: 'second' } },
+          second: { klados: { pi: TEST_KLADOS_ID }, then: { done: true } },
+        },
+      });
+      collection = sim.api.seed({ type: 'collection' });
+      target = sim.api.seed({
+        type: 'test_entity',
+        collection: collection.id,
+        properties: { title: 'Chained' },
+      });
+    });
+
+    it('hands the first step outputs to the next step', async () => {
+      const run = await sim.run({ targetEntity: target.id, targetCollection: collection.id });
+
+      expect(run.jobs.map((job) => job.step)).toEqual(['first', 'second']);
+      for (const job of run.jobs) assertLogCompleted(job.log!);
+
+      const [output] = run.root.outputs;
+      const [next] = run.root.children;
+      expect(next.step).toBe('second');
+      expect(next.request.target_entity).toBe(output.id);
+      expect(next.outputs[0].relationships).toContainEqual(
+        expect.objectContaining({ predicate: 'derived_from', peer: output.id })
+      );
+      expect(next.children).toEqual([]);
+    });
+  });
+
+  describe('scatter/gather', () => {
+    beforeEach(() => {
+      sim = createWorkflowSimulator({
+        entry: 'split',
+        flow: {
+          split: { klados: { pi: SPLIT_KLADOS_ID }, then: { scatter: 'each' } },
+          each: { klados: { pi: TEST_KLADOS_ID }, then: { gather: 'merge' } },
+          merge: { klados: { pi: MERGE_KLADOS_ID }, then: { done: true } },
+        },
+        kladoi: { [SPLIT_KLADOS_ID]: splitJob, [MERGE_KLADOS_ID]: mergeJob },
+      });
+      collection = sim.api.seed({ type: 'collection' });
+      target = sim.api.seed({
+        type: 'test_entity',
+        collection: collection.id,
+        properties: { title: 'Whole' },
+      });
+    });
+
+    it('runs a job per part and gathers every output', async () => {
+      const run = await sim.run({ targetEntity: target.id, targetCollection: collection.id });
+
+      const each = run.step('each');
+      expect(each).toHaveLength(3);
+      expect(run.root.children).toEqual(each);
+      expect(each.map((job) => job.request.target_entity).sort()).toEqual(
+        ids(run.root.outputs)
+      );
+      for (const job of each) assertLogCompleted(job.log!);
+
+      // One batch, every slot complete
+      expect(run.batches).toHaveLength(1);
+      const slots = run.batches[0].properties.slots as Array<{ status: string }>;
+      expect(slots).toHaveLength(3);
+      expect(slots.every((slot) => slot.status === 'complete')).toBe(true);
+
+      // The last slot to finish hands every output to the gather step
+      const [merge] = run.step('merge');
+      expect(merge.request.target_entities?.slice().sort()).toEqual(
+        ids(each.flatMap((job) => job.outputs))
+      );
+      expect(each.filter((job) => job.children.includes(merge))).toHaveLength(1);
+      assertLogCompleted(merge.log!);
+    });
+
+    it('records a failed slot without losing the others', async () => {
+      // The second part can't be fetched, so its job fails
+      const isPart2 = (path: string) =>
+        sim.api
+          .inCollection(collection.id, 'part')
+          .some((part) => part.properties.title === 'Part 2' && path === `/entities/${part.id}`);
+      sim.api.failRequests((request) => request.method === 'GET' && isPart2(request.path), 404);
+
+      const run = await sim.run({ targetEntity: target.id, targetCollection: collection.id });
+
+      const each = run.step('each');
+      expect(each).toHaveLength(3);
+      const failed = each.filter((job) => job.status === 'error');
+      expect(failed).toHaveLength(1);
+      expect(failed[0].outputs).toEqual([]);
+      for (const job of each.filter((j) => j !== failed[0])) {
+        assertLogCompleted(job.log!);
+        expect(job.outputs).toHaveLength(1);
+      }
+
+      const slots = run.batches[0].properties.slots as Array<{ status: string }>;
+      expect(slots.map((slot) => slot.status).sort()).toEqual(['complete', 'complete', 'error']);
+    });
+  });
+});